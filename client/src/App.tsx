@@ -2,15 +2,20 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Home from "./pages/Home";
 import ClassicMode from "./pages/ClassicMode";
 import BaseReactionMode from "./pages/BaseReactionMode";
+import MapEditor from "./pages/MapEditor";
+import ReplayViewer from "./pages/ReplayViewer";
 import NotFound from "./pages/not-found";
+import { getAppBasePath } from "./lib/utils";
 
 function App() {
   return (
-    <BrowserRouter>
+    <BrowserRouter basename={getAppBasePath()}>
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/chain-reaction" element={<ClassicMode />} />
         <Route path="/base-reaction" element={<BaseReactionMode />} />
+        <Route path="/editor" element={<MapEditor />} />
+        <Route path="/replay" element={<ReplayViewer />} />
         <Route path="/tutorial" element={<Navigate to="/" replace />} />
         <Route path="/tutorial/:mode" element={<Navigate to="/" replace />} />
         <Route path="*" element={<NotFound />} />
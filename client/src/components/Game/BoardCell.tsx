@@ -5,11 +5,11 @@ import {
   DOT_SIZE, 
   PLAYER_COLORS, 
   ANIMATION_DURATION,
+  HEX_CLIP_PATH,
   createColorVariation 
 } from "../../lib/constants";
 import { 
   getDotPositions, 
-  calculateCriticalMass, 
   isAboutToExplode, 
   randomOffset 
 } from "../../lib/gameUtils";
@@ -19,8 +19,9 @@ type BoardCellProps = {
   row: number;
   col: number;
   cell: GridCell;
-  totalRows: number;
-  totalCols: number;
+  criticalMass: number;
+  hex?: boolean; // Draw as a hexagon instead of a square
+  wrapTarget?: boolean; // Reached by an explosion across a wrapping edge
   onCellClick: (row: number, col: number) => void;
   isValidMove: boolean;
   powerUpType?: PowerUpType;
@@ -38,8 +39,9 @@ const BoardCell: React.FC<BoardCellProps> = ({
   row,
   col,
   cell,
-  totalRows,
-  totalCols,
+  criticalMass,
+  hex = false,
+  wrapTarget = false,
   onCellClick,
   isValidMove,
   powerUpType,
@@ -52,8 +54,7 @@ const BoardCell: React.FC<BoardCellProps> = ({
   heartSelectionMode = false,
   pendingHeartPlayer
 }) => {
-  const criticalMass = calculateCriticalMass(row, col, totalRows, totalCols);
-  const aboutToExplode = isAboutToExplode(cell, row, col, totalRows, totalCols);
+  const aboutToExplode = isAboutToExplode(cell, criticalMass);
   const cellRef = useRef<HTMLDivElement>(null);
 
   // Check if this HQ is a valid heart target
@@ -94,8 +95,26 @@ const BoardCell: React.FC<BoardCellProps> = ({
     }
   }, [aboutToExplode, cell.atoms]);
 
+  // Walls are dark, inert squares (only the map editor can click them)
+  if (cell.blocked) {
+    return (
+      <div className="relative" style={{ width: CELL_SIZE, height: CELL_SIZE, clipPath: hex ? HEX_CLIP_PATH : undefined }}>
+        <div
+          style={{
+            width: CELL_SIZE,
+            height: CELL_SIZE,
+            backgroundColor: "rgba(0, 0, 0, 0.35)",
+            margin: "1px",
+            cursor: isValidMove ? "pointer" : "not-allowed"
+          }}
+          onClick={() => isValidMove && onCellClick(row, col)}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="relative" style={{ width: CELL_SIZE, height: CELL_SIZE }}>
+    <div className="relative" style={{ width: CELL_SIZE, height: CELL_SIZE, clipPath: hex ? HEX_CLIP_PATH : undefined }}>
 
   
       {/* Main cell content */}
@@ -468,7 +487,19 @@ const BoardCell: React.FC<BoardCellProps> = ({
           />
         </div>
       )}
-      
+
+      {/* Wrap hint - faint dashed frame where an explosion comes back in */}
+      {wrapTarget && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            zIndex: 35,
+            border: "2px dashed rgba(255, 255, 255, 0.6)",
+            backgroundColor: "rgba(255, 255, 255, 0.08)"
+          }}
+        />
+      )}
+
       </div>
     </div>
   );
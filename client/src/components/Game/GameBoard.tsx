@@ -2,9 +2,12 @@ import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import BoardCell from "./BoardCell";
 import { CELL_SIZE, PLAYER } from "../../lib/constants";
-import type { GridCell, PowerUpCell, HQCell } from "../../lib/stores/useChainReaction";
+import type { GridCell, PowerUpCell, HQCell, MovePlayback } from "../../lib/stores/useChainReaction";
+import type { TopologyKind } from "@shared/engine";
 import { useAudio } from "../../lib/stores/useAudio";
 import { useChainReaction } from "../../lib/stores/useChainReaction";
+import { useEventPlayback } from "../../lib/useEventPlayback";
+import { calculateCriticalMass, getWrappedNeighbors } from "../../lib/gameUtils";
 
 interface GameBoardProps {
   grid: GridCell[][];
@@ -15,8 +18,15 @@ interface GameBoardProps {
   isValidMove: (row: number, col: number) => boolean;
   powerUps?: PowerUpCell[];
   hqs?: HQCell[];
-  isAnimating: boolean;
-  setIsAnimating: (animating: boolean) => void;
+  playback?: MovePlayback | null; // Last move, animated before the final grid is shown
+  onPlaybackComplete?: () => void;
+  topology?: TopologyKind;
+  wrap?: boolean; // Opposite edges connect
+  playbackSpeed?: number; // Multiplies the pace of chain reaction playback
+  // Boards not showing the live game (such as replays) pass these instead of
+  // reading them from the game store
+  maxHqHealth?: number;
+  pendingHeartPlayer?: PLAYER | null;
 }
 
 const GameBoard: React.FC<GameBoardProps> = ({
@@ -28,14 +38,35 @@ const GameBoard: React.FC<GameBoardProps> = ({
   isValidMove,
   powerUps = [],
   hqs = [],
-  isAnimating,
-  setIsAnimating
+  playback = null,
+  onPlaybackComplete = () => {},
+  topology = 'square',
+  wrap = false,
+  playbackSpeed = 1,
+  maxHqHealth: maxHqHealthProp,
+  pendingHeartPlayer: pendingHeartPlayerProp
 }) => {
   const [lastClickedCell, setLastClickedCell] = useState<{row: number, col: number} | null>(null);
+  const [hoveredCell, setHoveredCell] = useState<{row: number, col: number} | null>(null);
   const [gameStarted, setGameStarted] = useState(false);
   const [scale, setScale] = useState(1);
   const { playHit } = useAudio();
-  const { lastHQDamaged, heartSelectionMode, pendingHeartPlayer } = useChainReaction();
+  const store = useChainReaction();
+  const maxHqHealth = maxHqHealthProp ?? store.config.hqHealth;
+  const pendingHeartPlayer = pendingHeartPlayerProp !== undefined ? pendingHeartPlayerProp : store.pendingHeartPlayer;
+  const heartSelectionMode = pendingHeartPlayer !== null;
+  const { board, explodingCells, hqEffect, isPlaying, isLong, skip } = useEventPlayback(playback, onPlaybackComplete, playbackSpeed);
+
+  // While a chain reaction plays, show the replayed board instead of the final one
+  const shownGrid = board ? board.grid : grid;
+  const shownHQs = board ? board.hqs : hqs;
+  const shownPowerUps = board ? board.powerUps : powerUps;
+  const canMove = (row: number, col: number) => !isPlaying && isValidMove(row, col);
+  const layout = { topology, wrap };
+
+  // On a wrapping board, mark where the exploding (or hovered) cells reach across the edges
+  const hintSources = explodingCells.length > 0 ? explodingCells : hoveredCell ? [hoveredCell] : [];
+  const wrapTargets = hintSources.flatMap(source => getWrappedNeighbors(shownGrid, source.row, source.col, layout));
   
   // Trigger entrance animation immediately when the component mounts
   useEffect(() => {
@@ -43,12 +74,18 @@ const GameBoard: React.FC<GameBoardProps> = ({
     setGameStarted(true);
   }, []);
 
+  // Hex rows overlap by a quarter cell and odd rows shift right by half a cell
+  const isHex = topology === 'hex';
+  const hexRowOffset = (CELL_SIZE + 2) / 2;
+  const hexRowOverlap = CELL_SIZE / 4;
+
+  // Unscaled board size: cells, 2px gaps and 12px padding on each side
+  const boardWidth = cols * CELL_SIZE + cols * 2 + 24 + (isHex ? hexRowOffset : 0);
+  const boardHeight = (rows * CELL_SIZE + rows * 2 + 24 - (isHex ? (rows - 1) * hexRowOverlap : 0)) * 1.017;
+
   // Calculate responsive scale based on viewport
   useEffect(() => {
     const calculateScale = () => {
-      const boardWidth = cols * CELL_SIZE + cols * 2 + 24;
-      const boardHeight = (rows * CELL_SIZE + rows * 2 + 24) * 1.017;
-      
       const availableWidth = window.innerWidth - 32; // Account for padding
       const availableHeight = window.innerHeight - 200; // Account for UI elements
       
@@ -63,41 +100,47 @@ const GameBoard: React.FC<GameBoardProps> = ({
     calculateScale();
     window.addEventListener('resize', calculateScale);
     return () => window.removeEventListener('resize', calculateScale);
-  }, [rows, cols]);
+  }, [boardWidth, boardHeight]);
+
+  // Space skips to the end of a chain reaction
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === " ") {
+        e.preventDefault();
+        skip();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPlaying, skip]);
   
   // Handle cell click with animation tracking
   const handleCellClick = (row: number, col: number) => {
+    // Clicks during a chain reaction only skip it (handled by the board container)
+    if (isPlaying) return;
+
     // Play sound effect
     playHit();
     
     // Track this cell as last clicked
     setLastClickedCell({row, col});
     
-    // Start animation and then process the move
-    setIsAnimating(true);
     console.log(`🎯 GameBoard.handleCellClick: (${row},${col}) - heartSelectionMode=${heartSelectionMode}, pendingHeartPlayer=${pendingHeartPlayer}`);
-    
-    // Process the move immediately but keep animation state
     onCellClick(row, col);
-    
-    // Set a fallback timer to reset animation state in case the chain reaction logic doesn't do it
-    // This timer is shorter for cells that don't trigger a chain reaction
-    setTimeout(() => {
-      // Always reset animation flag after a short delay
-      console.log("Animation timeout reached - resetting animation state");
-      setIsAnimating(false);
-    }, 200); // Even shorter timeout for better responsiveness
   };
   
   // Get the power-up type for a specific cell
   const getPowerUpType = (row: number, col: number) => {
-    const powerUp = powerUps.find(p => p.row === row && p.col === col);
+    const powerUp = shownPowerUps.find(p => p.row === row && p.col === col);
     return powerUp?.type || null;
   };
   
   // Check if a cell is an HQ
   const getHQInfo = (row: number, col: number) => {
-    const hq = hqs.find(h => h.row === row && h.col === col);
+    const hq = shownHQs.find(h => h.row === row && h.col === col);
     return hq ? { isHQ: true, health: hq.health } : { isHQ: false };
   };
   
@@ -124,32 +167,39 @@ const GameBoard: React.FC<GameBoardProps> = ({
   };
 
   return (
-    <div className="flex items-center justify-center">
+    // The outer box takes the scaled size so large boards don't overflow the page
+    <div className="flex items-center justify-center" style={{ width: boardWidth * scale, height: boardHeight * scale }}>
+      <div style={{ width: boardWidth, height: boardHeight, flexShrink: 0, transform: `scale(${scale})`, transformOrigin: 'center' }}>
       <motion.div 
         className="relative"
         initial="hidden"
         animate={gameStarted ? "visible" : "hidden"}
         variants={boardContainerVariants}
+        onClick={isPlaying ? skip : undefined}
         style={{ 
-          width: cols * CELL_SIZE + cols * 2 + 24,
-          height: (rows * CELL_SIZE + rows * 2 + 24) * 1.017,
+          width: boardWidth,
+          height: boardHeight,
           background: "rgba(255, 255, 255, 0.05)",
           border: "none",
           boxShadow: "0 0 40px rgba(255, 255, 255, 0.3)",
           transformOrigin: 'center',
-          transform: `scale(${scale})`,
           padding: '12px',
-          borderRadius: '16px'
+          borderRadius: '16px',
+          // Dashed edges show that the board wraps around
+          outline: wrap ? "2px dashed rgba(255, 255, 255, 0.35)" : "none",
+          outlineOffset: -5
         }}
       >
 
         
       <div className="flex flex-col" style={{ gap: '2px' }}>
-      {grid.map((rowCells, rowIndex) => (
+      {shownGrid.map((rowCells, rowIndex) => (
         <div key={`row-${rowIndex}`} className="flex" style={{ 
           zIndex: 10, 
           position: 'relative', 
-          gap: '2px'
+          gap: '2px',
+          marginLeft: isHex && rowIndex % 2 === 1 ? hexRowOffset : 0,
+          marginTop: isHex && rowIndex > 0 ? -hexRowOverlap : 0
         }}>
           {rowCells.map((cell, colIndex) => {
             const powerUpType = getPowerUpType(rowIndex, colIndex);
@@ -158,35 +208,40 @@ const GameBoard: React.FC<GameBoardProps> = ({
             
             // Check if this is an HQ that was just damaged or healed
             // Add key based on current timestamp to force re-render and animation
-            const isHQEffected = isHQ && lastHQDamaged !== undefined && 
-                               lastHQDamaged.row === rowIndex && 
-                               lastHQDamaged.col === colIndex;
+            const isHQEffected = isHQ && hqEffect !== null && 
+                               hqEffect.row === rowIndex && 
+                               hqEffect.col === colIndex;
             // Get the effect type if any
-            const hqEffectType = isHQEffected ? lastHQDamaged?.type : undefined;
+            const hqEffectType = isHQEffected ? hqEffect?.type : undefined;
+            const isExploding = explodingCells.some(exploding => exploding.row === rowIndex && exploding.col === colIndex);
+            const isWrapTarget = wrapTargets.some(target => target.row === rowIndex && target.col === colIndex);
             
             return (
               <motion.div
-                // Add lastHQDamaged timestamp to key to force re-render when damage occurs
-                key={`cell-${rowIndex}-${colIndex}${isHQEffected ? `-${lastHQDamaged?.timestamp}` : ''}`}
-                whileHover={{ scale: isValidMove(rowIndex, colIndex) ? 1.05 : 1 }}
+                // Add the HQ effect timestamp to key to force re-render when damage occurs
+                key={`cell-${rowIndex}-${colIndex}${isHQEffected ? `-${hqEffect?.timestamp}` : ''}`}
+                whileHover={{ scale: canMove(rowIndex, colIndex) ? 1.05 : 1 }}
+                onHoverStart={() => setHoveredCell({ row: rowIndex, col: colIndex })}
+                onHoverEnd={() => setHoveredCell(null)}
                 animate={{ 
-                  scale: isHighlighted ? [1, 1.1, 1] : 1,
+                  scale: isExploding ? [1, 1.15, 1] : isHighlighted ? [1, 1.1, 1] : 1,
                   transition: { duration: 0.3 }
                 }}
               >
                 <BoardCell
-                  key={isHQ ? `hq-${health}-${isHQEffected ? lastHQDamaged?.timestamp : Date.now()}` : undefined}
+                  key={isHQ ? `hq-${health}-${isHQEffected ? hqEffect?.timestamp : Date.now()}` : undefined}
                   row={rowIndex}
                   col={colIndex}
                   cell={cell}
-                  totalRows={rows}
-                  totalCols={cols}
+                  criticalMass={calculateCriticalMass(shownGrid, rowIndex, colIndex, layout)}
+                  hex={isHex}
+                  wrapTarget={isWrapTarget}
                   onCellClick={handleCellClick}
-                  isValidMove={isValidMove(rowIndex, colIndex)}
+                  isValidMove={canMove(rowIndex, colIndex)}
                   powerUpType={powerUpType}
                   isHQ={isHQ}
                   hqHealth={health}
-                  maxHqHealth={5}
+                  maxHqHealth={maxHqHealth}
                   isHQDamaged={isHQEffected && hqEffectType === 'damage'}
                   isHQHealed={isHQEffected && hqEffectType === 'heal'}
                   isHQDestroyed={isHQEffected && hqEffectType === 'destroyed'}
@@ -199,7 +254,22 @@ const GameBoard: React.FC<GameBoardProps> = ({
         </div>
       ))}
       </div>
+
+      {/* Long chain reactions can be fast-forwarded to the final position */}
+      {isPlaying && isLong && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            skip();
+          }}
+          className="absolute left-1/2 -translate-x-1/2 bottom-2 px-3 py-1 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-sm"
+          style={{ zIndex: 50, fontFamily: 'Menlo, monospace' }}
+        >
+          Resolve the rest ⏩
+        </button>
+      )}
       </motion.div>
+      </div>
     </div>
   );
 };
@@ -6,17 +6,25 @@ import { PlayerSettingsManager, PLAYER_CONTROL } from "../Menu/MainMenu";
 interface GameControlsProps {
   currentPlayer: PLAYER;
   onUndo: () => void;
+  onRedo: () => void;
   onRestart: () => void;
   canUndo: boolean;
+  canRedo: boolean;
   isBaseMode: boolean;
+  aiThinking?: boolean; // An AI seat is working out its move
+  aiError?: string | null; // An AI seat is stuck and cannot move
 }
 
 const GameControls: React.FC<GameControlsProps> = ({
   currentPlayer,
   onUndo,
+  onRedo,
   onRestart,
   canUndo,
-  isBaseMode
+  canRedo,
+  isBaseMode,
+  aiThinking = false,
+  aiError = null
 }) => {
   const navigate = useNavigate();
 
@@ -28,9 +36,13 @@ const GameControls: React.FC<GameControlsProps> = ({
         onRestart();
       }
 
-      // Z key (with Ctrl/Cmd) for undo
-      if ((e.ctrlKey || e.metaKey) && (e.key === "z" || e.key === "Z") && canUndo) {
-        onUndo();
+      // Z key (with Ctrl/Cmd) for undo, with Shift as well for redo
+      if ((e.ctrlKey || e.metaKey) && (e.key === "z" || e.key === "Z")) {
+        if (e.shiftKey && canRedo) {
+          onRedo();
+        } else if (!e.shiftKey && canUndo) {
+          onUndo();
+        }
       }
 
       // Escape key to go back to menu
@@ -43,7 +55,7 @@ const GameControls: React.FC<GameControlsProps> = ({
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [canUndo, onRestart, onUndo, navigate]);
+  }, [canUndo, canRedo, onRestart, onUndo, onRedo, navigate]);
 
   return (
     <div 
@@ -72,6 +84,24 @@ const GameControls: React.FC<GameControlsProps> = ({
           Undo
         </button>
 
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className={`px-6 py-3 rounded-xl text-white text-base font-medium transition-all duration-500 ${
+            canRedo 
+              ? "hover:opacity-80" 
+              : "opacity-50 cursor-not-allowed"
+          }`}
+          style={{ 
+            fontFamily: 'Menlo, monospace',
+            backgroundColor: 'rgb(20, 20, 20)', // Really dark gray with no transparency
+            border: 'none',
+            transition: "opacity 0.3s ease" // Simplified transition
+          }}
+        >
+          Redo
+        </button>
+
         <button
           onClick={onRestart}
           className="px-6 py-3 rounded-xl text-white text-base font-medium hover:opacity-80 transition-all duration-500"
@@ -98,6 +128,23 @@ const GameControls: React.FC<GameControlsProps> = ({
           Menu
         </button>
       </div>
+
+      {/* Fixed height so the board does not jump when it appears */}
+      <div className="h-6 mt-3 flex items-center gap-2 text-sm text-white" style={{ fontFamily: 'Menlo, monospace' }}>
+        {aiThinking && (
+          <>
+            <span
+              className="w-3 h-3 rounded-full animate-pulse"
+              style={{
+                backgroundColor: PLAYER_COLORS[currentPlayer],
+                border: currentPlayer === PLAYER.BLACK ? '1px solid white' : 'none'
+              }}
+            />
+            <span className="animate-pulse">thinking...</span>
+          </>
+        )}
+        {aiError && <span className="text-red-400">{aiError}</span>}
+      </div>
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import { motion } from "framer-motion";
 import { PLAYER, PLAYER_COLORS } from "../../lib/constants";
 
@@ -6,15 +6,26 @@ interface GameOverOverlayProps {
   winner: PLAYER | null;
   onRestart: () => void;
   onBackToMenu: () => void;
+  onDownloadRecord?: () => void;
 }
 
 const GameOverOverlay: React.FC<GameOverOverlayProps> = ({
   winner,
   onRestart,
-  onBackToMenu
+  onBackToMenu,
+  onDownloadRecord
 }) => {
-  
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
   if (!winner) return null;
+
+  const downloadRecord = () => {
+    try {
+      onDownloadRecord?.();
+    } catch (error) {
+      setDownloadError(`Could not write the game record: ${error instanceof Error ? error.message : error}`);
+    }
+  };
   
   return (
     <motion.div
@@ -56,6 +67,20 @@ const GameOverOverlay: React.FC<GameOverOverlayProps> = ({
           >
             Play Again
           </motion.button>
+
+          {onDownloadRecord && (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={downloadRecord}
+              className="py-3 px-6 bg-black hover:bg-gray-800 rounded-2xl text-white transition-all duration-300 border-2 border-white"
+              style={{ 
+                fontFamily: 'Menlo, monospace'
+              }}
+            >
+              Download Game
+            </motion.button>
+          )}
           
           <motion.button
             whileHover={{ scale: 1.02 }}
@@ -69,6 +94,10 @@ const GameOverOverlay: React.FC<GameOverOverlayProps> = ({
             Back to Menu
           </motion.button>
         </div>
+
+        {downloadError && (
+          <p className="text-sm text-red-400 mt-4 text-center" style={{ fontFamily: 'Menlo, monospace' }}>{downloadError}</p>
+        )}
       </motion.div>
     </motion.div>
   );
@@ -0,0 +1,78 @@
+import React, { useMemo } from "react";
+import { PLAYER, PLAYER_COLORS } from "../../lib/constants";
+import { MoveTree, ROOT_NODE, formatMoves, getPath } from "../../lib/moveTree";
+
+interface MoveTreePanelProps {
+  tree: MoveTree;
+  currentNode: number;
+  onSelect: (id: number) => void;
+}
+
+const MoveTreePanel: React.FC<MoveTreePanelProps> = ({ tree, currentNode, onSelect }) => {
+  // Nodes on the way to the current position are highlighted
+  const currentPath = useMemo(() => new Set(getPath(tree, currentNode)), [tree, currentNode]);
+
+  const renderMove = (id: number, depth: number, ply: number) => {
+    const node = tree.nodes[id];
+    const isCurrent = id === currentNode;
+    return (
+      <button
+        key={`move-${id}`}
+        onClick={() => onSelect(id)}
+        className={`flex items-center gap-2 w-full text-left px-2 py-1 rounded-lg text-sm ${
+          isCurrent ? 'bg-white text-black' : currentPath.has(id) ? 'text-white' : 'text-gray-400 hover:text-white'
+        }`}
+        style={{ paddingLeft: 8 + depth * 12 }}
+      >
+        <span className="w-6 text-right">{ply}</span>
+        <span
+          className="w-3 h-3 rounded-full flex-shrink-0"
+          style={{
+            backgroundColor: PLAYER_COLORS[node.player!],
+            border: node.player === PLAYER.BLACK ? '1px solid white' : 'none'
+          }}
+        />
+        <span>{formatMoves(node.moves)}</span>
+      </button>
+    );
+  };
+
+  // Follow a line through first children; other children are variations,
+  // shown indented under the move they branch from
+  const renderLine = (startId: number, depth: number, startPly: number): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+    let ply = startPly;
+    for (let id: number | undefined = startId; id !== undefined; id = tree.nodes[id].children[0]) {
+      if (id !== ROOT_NODE) items.push(renderMove(id, depth, ply));
+      const variationPly = ply + 1;
+      tree.nodes[id].children.slice(1).forEach(variation => {
+        items.push(
+          <div key={`variation-${variation}`} className="border-l border-gray-600 ml-2">
+            {renderLine(variation, depth + 1, variationPly)}
+          </div>
+        );
+      });
+      ply++;
+    }
+    return items;
+  };
+
+  return (
+    <div
+      className="hidden lg:block fixed right-4 top-24 w-56 max-h-[70vh] overflow-y-auto p-2 rounded-xl text-white"
+      style={{ fontFamily: 'Menlo, monospace', backgroundColor: 'rgb(20, 20, 20)' }}
+    >
+      <button
+        onClick={() => onSelect(ROOT_NODE)}
+        className={`w-full text-left px-2 py-1 rounded-lg text-sm mb-1 ${
+          currentNode === ROOT_NODE ? 'bg-white text-black' : 'text-gray-400 hover:text-white'
+        }`}
+      >
+        Start
+      </button>
+      {renderLine(ROOT_NODE, 0, 0)}
+    </div>
+  );
+};
+
+export default MoveTreePanel;
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { GameMode, serializePosition, serializeRecord } from "@shared/engine";
+import { selectGameState, useChainReaction } from "../../lib/stores/useChainReaction";
+import { RECORD_FILE_EXTENSION, downloadGameRecord } from "../../lib/gameRecord";
+import { readTextFile } from "../../lib/utils";
+import { SharedGame, createShareLink } from "../../lib/shareLink";
+
+interface PositionControlsProps {
+  mode: GameMode;
+}
+
+const buttonStyle = {
+  fontFamily: 'Menlo, monospace',
+  backgroundColor: 'rgb(20, 20, 20)', // Same dark gray as the game controls
+  border: 'none'
+};
+
+// Copy the current position as text, or paste one in to play from it. Whole
+// games can be saved as record files and loaded back to step through, or
+// kept by name in the menu's saved games.
+const PositionControls: React.FC<PositionControlsProps> = ({ mode }) => {
+  const loadPosition = useChainReaction(state => state.loadPosition);
+  const loadRecord = useChainReaction(state => state.loadRecord);
+  const getRecord = useChainReaction(state => state.getRecord);
+  const saveGame = useChainReaction(state => state.saveGame);
+  const [saveName, setSaveName] = useState<string | null>(null); // Name being typed, null when closed
+  const fileInput = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(false);
+  const [notation, setNotation] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const copyText = async (text: string, copiedMessage: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage(copiedMessage);
+    } catch {
+      // Clipboard access can be refused; show the text so it can be copied by hand
+      setNotation(text);
+      setIsLoading(true);
+      setMessage("Could not reach the clipboard, copy the text below");
+    }
+  };
+
+  const copyPosition = () =>
+    copyText(serializePosition(selectGameState(useChainReaction.getState())), "Position copied");
+
+  // Links open straight into this mode at the shared position, or with the
+  // whole game in the move tree
+  const copyShareLink = async (kind: SharedGame['kind']) => {
+    try {
+      const text = kind === 'position'
+        ? serializePosition(selectGameState(useChainReaction.getState()))
+        : serializeRecord(getRecord());
+      copyText(await createShareLink({ kind, text }), "Link copied");
+    } catch (error) {
+      setMessage(`Could not make a link: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Writing the record replays the game, which throws if a move is not legal
+  const withRecord = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      setMessage(`Could not write the game record: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const submitPosition = () => {
+    try {
+      loadPosition(notation, mode);
+      setIsLoading(false);
+      setNotation("");
+      setMessage("Position loaded");
+    } catch (error) {
+      setMessage(`Could not load position: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const submitSave = () => {
+    const name = saveName?.trim();
+    if (!name) return;
+    saveGame(name);
+    setSaveName(null);
+    setMessage(`Saved as "${name}"`);
+  };
+
+  const loadRecordFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      loadRecord(await readTextFile(file), mode);
+      setMessage(`Loaded ${file.name}, use undo and redo to step through it`);
+    } catch (error) {
+      setMessage(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-xl mt-6 text-white" style={{ fontFamily: 'Menlo, monospace' }}>
+      <div className="flex flex-wrap justify-center gap-4">
+        <button onClick={copyPosition} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+          Copy position
+        </button>
+        <button
+          onClick={() => {
+            setIsLoading(!isLoading);
+            setMessage(null);
+          }}
+          className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+          style={buttonStyle}
+        >
+          Load position
+        </button>
+        <button onClick={() => copyShareLink('position')} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+          Share position
+        </button>
+        <button onClick={() => copyShareLink('game')} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+          Share game
+        </button>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4 mt-3">
+        <button onClick={() => withRecord(() => downloadGameRecord(getRecord()))} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+          Download game
+        </button>
+        <button onClick={() => fileInput.current?.click()} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+          Load game
+        </button>
+        <button
+          onClick={() => withRecord(() => navigate("/replay", { state: { record: serializeRecord(getRecord()) } }))}
+          className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+          style={buttonStyle}
+        >
+          Replay
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={`${RECORD_FILE_EXTENSION},text/plain`}
+          className="hidden"
+          onChange={e => {
+            loadRecordFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => {
+            setSaveName(saveName === null ? "" : null);
+            setMessage(null);
+          }}
+          className="px-4 py-2 rounded-xl text-sm hover:opacity-80"
+          style={buttonStyle}
+        >
+          Save game
+        </button>
+      </div>
+
+      {saveName !== null && (
+        <div className="flex w-full gap-2 mt-3">
+          <input
+            value={saveName}
+            onChange={e => setSaveName(e.target.value)}
+            onKeyDown={e => {
+              e.stopPropagation();
+              if (e.key === "Enter") submitSave();
+            }}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-black border-2 border-white text-white text-xs"
+            placeholder="Name this save"
+            autoFocus
+          />
+          <button onClick={submitSave} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+            Save
+          </button>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex w-full gap-2 mt-3">
+          <input
+            value={notation}
+            onChange={e => setNotation(e.target.value)}
+            onKeyDown={e => {
+              // Keep game shortcuts (R, Escape, Ctrl+Z) out of the text box
+              e.stopPropagation();
+              if (e.key === "Enter") submitPosition();
+            }}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-black border-2 border-white text-white text-xs"
+            placeholder="Paste a position"
+          />
+          <button onClick={submitPosition} className="px-4 py-2 rounded-xl text-sm hover:opacity-80" style={buttonStyle}>
+            Load
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-gray-300 mt-2 text-center">{message}</p>}
+    </div>
+  );
+};
+
+export default PositionControls;
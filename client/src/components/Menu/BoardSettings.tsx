@@ -0,0 +1,244 @@
+import React, { useMemo } from "react";
+import { motion } from "framer-motion";
+import {
+  BOARD_SHAPES,
+  BoardMap,
+  DEFAULT_BOARD_SIZES,
+  GameMode,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  needsEvenRows
+} from "@shared/engine";
+import { EVEN_ROWS_HINT, TOPOLOGY_LABELS } from "../../lib/constants";
+import { MapStorage } from "../../lib/mapStorage";
+import type { BoardSize, PlayerSelectionSettings } from "./MainMenu";
+
+// The per-mode board choices saved with the player settings
+export type BoardSettingsValues = Pick<
+  PlayerSelectionSettings,
+  'boardSizes' | 'boardShapes' | 'mapNames' | 'topologies' | 'wrapEdges' | 'resolutions'
+>;
+
+interface BoardSettingsProps {
+  mode: GameMode;
+  settings: BoardSettingsValues;
+  onChange: (settings: BoardSettingsValues) => void;
+  playerCount?: number; // Only offer maps for this many players
+  onMapChange?: (map: BoardMap | undefined) => void; // Maps fix the number of players
+}
+
+// Map, size, cells, edges, shape and explosion choices for the selected mode,
+// shared by the singleplayer and multiplayer setup screens
+const BoardSettings: React.FC<BoardSettingsProps> = ({ mode, settings, onChange, playerCount, onMapChange }) => {
+  const playableMaps = useMemo(
+    () => MapStorage.getPlayableMaps(mode).filter(map => playerCount === undefined || map.players.length === playerCount),
+    [mode, playerCount]
+  );
+  const selectedMap = playableMaps.find(map => map.name === settings.mapNames?.[mode]);
+  const boardSize = settings.boardSizes?.[mode] || DEFAULT_BOARD_SIZES[mode];
+  const boardShape = settings.boardShapes?.[mode] || 'rectangle';
+  const topology = settings.topologies?.[mode] || 'square';
+  const wrap = settings.wrapEdges?.[mode] || false;
+  const resolution = settings.resolutions?.[mode] || 'sequential';
+
+  // Change one setting for this mode, keeping the other modes' choices
+  const update = <K extends keyof BoardSettingsValues>(key: K, value: NonNullable<BoardSettingsValues[K]>[GameMode]) =>
+    onChange({ ...settings, [key]: { ...settings[key], [mode]: value } });
+
+  // Step through the available board shapes
+  const changeBoardShape = (delta: number) => {
+    const index = BOARD_SHAPES.indexOf(boardShape);
+    update('boardShapes', BOARD_SHAPES[(index + delta + BOARD_SHAPES.length) % BOARD_SHAPES.length]);
+  };
+
+  // Step through "no map" and the saved maps playable in this mode
+  const changeMap = (delta: number) => {
+    const options = [undefined, ...playableMaps];
+    const index = options.indexOf(selectedMap);
+    const next = options[(index + delta + options.length) % options.length];
+    update('mapNames', next?.name);
+    onMapChange?.(next);
+  };
+
+  // Grow or shrink one side of the board within the supported range
+  const changeBoardSize = (dimension: keyof BoardSize, delta: number) => {
+    // Wrapping hex boards keep an even number of rows
+    const step = dimension === 'rows' && needsEvenRows(topology, wrap) ? 2 : 1;
+    const size = Math.min(MAX_BOARD_SIZE, Math.max(MIN_BOARD_SIZE, boardSize[dimension] + delta * step));
+    update('boardSizes', { ...boardSize, [dimension]: size });
+  };
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-lg font-semibold mb-2" style={{ fontFamily: 'Menlo, monospace' }}>Board Size</h3>
+      {playableMaps.length > 0 && (
+        <div className="flex items-center justify-between mb-2">
+          <span style={{ fontFamily: 'Menlo, monospace' }}>Map</span>
+          <div className="flex items-center gap-2">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => changeMap(-1)}
+              className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center"
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              &lt;
+            </motion.button>
+            <span className="w-24 text-center truncate" style={{ fontFamily: 'Menlo, monospace' }}>
+              {selectedMap ? selectedMap.name : 'None'}
+            </span>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => changeMap(1)}
+              className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center"
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              &gt;
+            </motion.button>
+          </div>
+        </div>
+      )}
+      {!selectedMap && (['rows', 'cols'] as const).map((dimension) => (
+        <div key={dimension} className="flex items-center justify-between mb-2">
+          <span style={{ fontFamily: 'Menlo, monospace' }}>{dimension === 'rows' ? 'Rows' : 'Columns'}</span>
+          <div className="flex items-center gap-2">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => changeBoardSize(dimension, -1)}
+              disabled={boardSize[dimension] <= MIN_BOARD_SIZE}
+              className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center disabled:opacity-40"
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              -
+            </motion.button>
+            <span className="w-8 text-center text-lg" style={{ fontFamily: 'Menlo, monospace' }}>
+              {boardSize[dimension]}
+            </span>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => changeBoardSize(dimension, 1)}
+              disabled={boardSize[dimension] >= MAX_BOARD_SIZE}
+              className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center disabled:opacity-40"
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              +
+            </motion.button>
+          </div>
+        </div>
+      ))}
+      {!selectedMap && (
+        <div className="flex items-center justify-between mb-2">
+          <span style={{ fontFamily: 'Menlo, monospace' }}>Cells</span>
+          <div className="grid grid-cols-3 gap-2">
+            {(['square', 'hex', 'moore'] as const).map((kind) => (
+              <motion.button
+                key={kind}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ duration: 0.1 }}
+                onClick={() => update('topologies', kind)}
+                disabled={needsEvenRows(kind, wrap) && boardSize.rows % 2 === 1}
+                title={needsEvenRows(kind, wrap) && boardSize.rows % 2 === 1 ? EVEN_ROWS_HINT : undefined}
+                className={`h-10 px-3 rounded-xl border-2 border-white text-sm transition-all duration-100 flex items-center justify-center disabled:opacity-40 ${
+                  topology === kind
+                    ? 'bg-white text-black hover:bg-gray-200'
+                    : 'bg-black hover:bg-gray-800 text-white'
+                }`}
+                style={{ fontFamily: 'Menlo, monospace' }}
+              >
+                {TOPOLOGY_LABELS[kind]}
+              </motion.button>
+            ))}
+          </div>
+        </div>
+      )}
+      {!selectedMap && (
+        <div className="flex items-center justify-between mb-2">
+          <span style={{ fontFamily: 'Menlo, monospace' }}>Edges</span>
+          <div className="grid grid-cols-2 gap-2">
+            {[false, true].map((wraps) => (
+              <motion.button
+                key={String(wraps)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ duration: 0.1 }}
+                onClick={() => update('wrapEdges', wraps)}
+                disabled={needsEvenRows(topology, wraps) && boardSize.rows % 2 === 1}
+                title={needsEvenRows(topology, wraps) && boardSize.rows % 2 === 1 ? EVEN_ROWS_HINT : undefined}
+                className={`h-10 px-3 rounded-xl border-2 border-white text-sm transition-all duration-100 flex items-center justify-center disabled:opacity-40 ${
+                  wrap === wraps
+                    ? 'bg-white text-black hover:bg-gray-200'
+                    : 'bg-black hover:bg-gray-800 text-white'
+                }`}
+                style={{ fontFamily: 'Menlo, monospace' }}
+              >
+                {wraps ? 'Wrap' : 'Solid'}
+              </motion.button>
+            ))}
+          </div>
+        </div>
+      )}
+      {!selectedMap && (
+      <div className="flex items-center justify-between mb-2">
+        <span style={{ fontFamily: 'Menlo, monospace' }}>Shape</span>
+        <div className="flex items-center gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            transition={{ duration: 0.1 }}
+            onClick={() => changeBoardShape(-1)}
+            className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center"
+            style={{ fontFamily: 'Menlo, monospace' }}
+          >
+            &lt;
+          </motion.button>
+          <span className="w-24 text-center capitalize" style={{ fontFamily: 'Menlo, monospace' }}>
+            {boardShape}
+          </span>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            transition={{ duration: 0.1 }}
+            onClick={() => changeBoardShape(1)}
+            className="h-10 w-10 rounded-xl border-2 border-white bg-black hover:bg-gray-800 text-white text-lg flex items-center justify-center"
+            style={{ fontFamily: 'Menlo, monospace' }}
+          >
+            &gt;
+          </motion.button>
+        </div>
+      </div>
+      )}
+      <div className="flex items-center justify-between mb-2">
+        <span style={{ fontFamily: 'Menlo, monospace' }}>Explode</span>
+        <div className="grid grid-cols-2 gap-2">
+          {(['sequential', 'waves'] as const).map((kind) => (
+            <motion.button
+              key={kind}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => update('resolutions', kind)}
+              className={`h-10 px-3 rounded-xl border-2 border-white text-sm transition-all duration-100 flex items-center justify-center ${
+                resolution === kind
+                  ? 'bg-white text-black hover:bg-gray-200'
+                  : 'bg-black hover:bg-gray-800 text-white'
+              }`}
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              {kind === 'sequential' ? 'In turn' : 'Waves'}
+            </motion.button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardSettings;
@@ -1,15 +1,22 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { PLAYER, PLAYER_COLORS } from "../../lib/constants";
-import { AI_STRATEGY } from "../../lib/aiPlayer";
+import { AI_STRATEGIES, AI_STRATEGY, AI_STRATEGY_LABELS, DEFAULT_AI_STRATEGY, parseAIStrategy } from "../../lib/aiPlayer";
 import TutorialScreen from "./TutorialScreen";
+import BoardSettings, { BoardSettingsValues } from "./BoardSettings";
+import { MapStorage } from "../../lib/mapStorage";
+import { GAME_MODE_PATHS, GameStorage, SavedGame } from "../../lib/gameStorage";
+import {
+  BoardShape,
+  ExplosionResolution,
+  TopologyKind,
+  GameMode,
+  PLAYER_CONTROL
+} from "@shared/engine";
 
-// Enum to represent player control type
-export enum PLAYER_CONTROL {
-  HUMAN = 'human',
-  AI = 'ai'
-}
+// Player control type lives with the game config in the rules engine
+export { PLAYER_CONTROL };
 
 // Player settings interface with AI support
 export type PlayerConfig = {
@@ -18,11 +25,22 @@ export type PlayerConfig = {
   aiStrategy?: AI_STRATEGY;
 }
 
+export type BoardSize = {
+  rows: number;
+  cols: number;
+};
+
 // Create a store to save player selection
 export type PlayerSelectionSettings = {
   numberOfPlayers: 2 | 3 | 4;
   players: PLAYER[];
   playerConfigs: PlayerConfig[];
+  boardSizes?: Partial<Record<GameMode, BoardSize>>; // Chosen board size per mode
+  boardShapes?: Partial<Record<GameMode, BoardShape>>; // Chosen board shape per mode
+  mapNames?: Partial<Record<GameMode, string>>; // Custom map per mode, replacing size and shape
+  topologies?: Partial<Record<GameMode, TopologyKind>>; // Square or hex cells per mode
+  wrapEdges?: Partial<Record<GameMode, boolean>>; // Opposite edges connect per mode
+  resolutions?: Partial<Record<GameMode, ExplosionResolution>>; // One explosion at a time or in waves
 };
 
 // Default player assignments by count
@@ -32,6 +50,15 @@ export const playerAssignments = {
   4: [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE, PLAYER.BLACK]
 };
 
+// One-line summaries of the AI tiers for the singleplayer menu
+const AI_STRATEGY_DESCRIPTIONS: Record<AI_STRATEGY, string> = {
+  [AI_STRATEGY.EASY]: 'Plays almost at random',
+  [AI_STRATEGY.MEDIUM]: 'Strategic AI opponent',
+  [AI_STRATEGY.HARD]: 'Looks ahead at your replies',
+  [AI_STRATEGY.EXPERT]: 'Searches deeper and wider',
+  [AI_STRATEGY.MCTS]: 'Plays out games to decide'
+};
+
 // Create default player configurations - all human players for multiplayer
 const createDefaultPlayerConfigs = (players: PLAYER[]): PlayerConfig[] => {
   return players.map(player => ({
@@ -97,7 +124,7 @@ export const PlayerSettingsManager = {
   getAIStrategy: (player: PLAYER): AI_STRATEGY => {
     const settings = PlayerSettingsManager.getSettings();
     const playerConfig = settings.playerConfigs.find(config => config.player === player);
-    return playerConfig?.aiStrategy || AI_STRATEGY.SMART;
+    return parseAIStrategy(playerConfig?.aiStrategy);
   },
   
   // Update a player's control type
@@ -109,14 +136,14 @@ export const PlayerSettingsManager = {
     if (playerConfig) {
       playerConfig.control = control;
       playerConfig.aiStrategy = control === PLAYER_CONTROL.AI ? 
-        (aiStrategy || AI_STRATEGY.SMART) : undefined;
+        (aiStrategy || DEFAULT_AI_STRATEGY) : undefined;
     } else {
       // If player config doesn't exist, create it
       settings.playerConfigs.push({
         player,
         control,
         aiStrategy: control === PLAYER_CONTROL.AI ? 
-          (aiStrategy || AI_STRATEGY.SMART) : undefined
+          (aiStrategy || DEFAULT_AI_STRATEGY) : undefined
       });
     }
     
@@ -142,7 +169,7 @@ const MainMenu: React.FC = () => {
   const navigationState = history.state?.usr;
   
   // Menu state
-  const [menuScreen, setMenuScreen] = useState<'main' | 'mode' | 'singleplayer' | 'multiplayer' | 'tutorial' | 'tutorial-content'>(() => {
+  const [menuScreen, setMenuScreen] = useState<'main' | 'mode' | 'singleplayer' | 'multiplayer' | 'tutorial' | 'tutorial-content' | 'saved'>(() => {
     if (navigationState?.openMultiplayer) {
       return 'multiplayer';
     }
@@ -155,7 +182,24 @@ const MainMenu: React.FC = () => {
     }
     return 'chain-reaction';
   });
-  const [aiStrategy, setAIStrategy] = useState<AI_STRATEGY>(AI_STRATEGY.SMART);
+
+  // Unfinished games to continue, and games saved by name
+  const [autosaves] = useState(() => (['base', 'classic'] as GameMode[]).flatMap(mode => {
+    const saved = GameStorage.getAutosave(mode);
+    return saved ? [saved] : [];
+  }));
+  const [savedGames, setSavedGames] = useState<SavedGame[]>(() => GameStorage.getSlots());
+
+  // Open a saved game by making it the one its mode continues with
+  const openSavedGame = (saved: SavedGame) => {
+    GameStorage.setAutosave(saved);
+    navigate(GAME_MODE_PATHS[saved.state.config.mode]);
+  };
+
+  const deleteSavedGame = (name: string) => {
+    GameStorage.deleteSlot(name);
+    setSavedGames(GameStorage.getSlots());
+  };
   
   // Initialize number of players from existing settings
   const initialNumPlayers = (): 2 | 3 | 4 => {
@@ -170,6 +214,20 @@ const MainMenu: React.FC = () => {
   const [playerConfigs, setPlayerConfigs] = useState<PlayerConfig[]>(
     initialSettings.playerConfigs || createDefaultPlayerConfigs(playerAssignments[numPlayers])
   );
+  const [boardSettings, setBoardSettings] = useState<BoardSettingsValues>({
+    boardSizes: initialSettings.boardSizes || {},
+    boardShapes: initialSettings.boardShapes || {},
+    mapNames: initialSettings.mapNames || {},
+    topologies: initialSettings.topologies || {},
+    wrapEdges: initialSettings.wrapEdges || {},
+    resolutions: initialSettings.resolutions || {}
+  });
+  
+  const selectedGameMode: GameMode = selectedMode === 'base-reaction' ? 'base' : 'classic';
+  const selectedMap = useMemo(
+    () => MapStorage.getPlayableMaps(selectedGameMode).find(map => map.name === boardSettings.mapNames?.[selectedGameMode]),
+    [selectedGameMode, boardSettings.mapNames]
+  );
   
   // Update player configurations when number of players changes
   const handleNumPlayersChange = (num: 2 | 3 | 4) => {
@@ -215,14 +273,23 @@ const MainMenu: React.FC = () => {
     setPlayerSettings({
       numberOfPlayers: 2,
       players: [PLAYER.RED, PLAYER.BLUE],
-      playerConfigs: singleplayerConfig
+      playerConfigs: singleplayerConfig,
+      ...boardSettings,
+      // Only two-player maps are offered here
+      mapNames: {
+        ...boardSettings.mapNames,
+        [selectedGameMode]: selectedMap?.players.length === 2 ? selectedMap.name : undefined
+      }
     });
     
+    // A new game replaces the unfinished one of this mode
+    GameStorage.clearAutosave(selectedGameMode);
+
     // Navigate to selected game mode
     navigate(`/${selectedMode}`);
   };
   
-  // Toggle player control between human and AI (now enabled in multiplayer mode)
+  // Step a seat through human and each AI tier: Human, Easy, Medium, Hard, Expert
   const togglePlayerControl = (player: PLAYER) => {
     console.log('Toggling player control for:', player);
     
@@ -230,15 +297,13 @@ const MainMenu: React.FC = () => {
     const playerIndex = updatedConfigs.findIndex(config => config.player === player);
     
     if (playerIndex !== -1) {
-      const currentControl = updatedConfigs[playerIndex].control;
+      const config = updatedConfigs[playerIndex];
+      const tierIndex = config.control === PLAYER_CONTROL.AI ? AI_STRATEGIES.indexOf(parseAIStrategy(config.aiStrategy)) : -1;
+      const nextStrategy = AI_STRATEGIES[tierIndex + 1];
       
-      if (currentControl === PLAYER_CONTROL.HUMAN) {
-        updatedConfigs[playerIndex].control = PLAYER_CONTROL.AI;
-        updatedConfigs[playerIndex].aiStrategy = aiStrategy;
-      } else {
-        updatedConfigs[playerIndex].control = PLAYER_CONTROL.HUMAN;
-        updatedConfigs[playerIndex].aiStrategy = undefined;
-      }
+      updatedConfigs[playerIndex] = nextStrategy
+        ? { player, control: PLAYER_CONTROL.AI, aiStrategy: nextStrategy }
+        : { player, control: PLAYER_CONTROL.HUMAN, aiStrategy: undefined };
     }
     
     setPlayerConfigs(updatedConfigs);
@@ -250,9 +315,13 @@ const MainMenu: React.FC = () => {
     setPlayerSettings({
       numberOfPlayers: numPlayers,
       players: playerAssignments[numPlayers],
-      playerConfigs: playerConfigs
+      playerConfigs: playerConfigs,
+      ...boardSettings
     });
     
+    // A new game replaces the unfinished one of this mode
+    GameStorage.clearAutosave(selectedGameMode);
+
     // Navigate to selected game mode
     navigate(`/${selectedMode}`);
   };
@@ -290,6 +359,20 @@ const MainMenu: React.FC = () => {
         >
           <div className="grid grid-cols-1 gap-4 w-full">
 
+            {autosaves.map(saved => (
+              <motion.button
+                key={`continue-${saved.state.config.mode}`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ duration: 0.1 }}
+                onClick={() => navigate(GAME_MODE_PATHS[saved.state.config.mode])}
+                className={`${buttonStyle.base} ${buttonStyle.selected}`}
+                style={{ fontFamily: 'Menlo, monospace' }}
+              >
+                Continue {saved.state.config.mode === 'base' ? 'Base' : 'Chain'} Reaction
+              </motion.button>
+            ))}
+
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -328,6 +411,41 @@ const MainMenu: React.FC = () => {
             >
               Tutorial
             </motion.button>
+
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => navigate('/editor')}
+              className={`${buttonStyle.base} ${buttonStyle.primary}`}
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              Map Editor
+            </motion.button>
+
+            {savedGames.length > 0 && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ duration: 0.1 }}
+                onClick={() => setMenuScreen('saved')}
+                className={`${buttonStyle.base} ${buttonStyle.primary}`}
+                style={{ fontFamily: 'Menlo, monospace' }}
+              >
+                Saved Games
+              </motion.button>
+            )}
+
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              transition={{ duration: 0.1 }}
+              onClick={() => navigate('/replay')}
+              className={`${buttonStyle.base} ${buttonStyle.primary}`}
+              style={{ fontFamily: 'Menlo, monospace' }}
+            >
+              Replays
+            </motion.button>
             
           </div>
         </motion.div>
@@ -391,26 +509,36 @@ const MainMenu: React.FC = () => {
           transition={{ duration: 0.3 }}
           className="bg-black p-8 w-80"
         >
+          <BoardSettings
+            mode={selectedGameMode}
+            settings={boardSettings}
+            onChange={setBoardSettings}
+            playerCount={2}
+          />
+          
           <h2 className="text-2xl font-bold mb-2 text-center" style={{ fontFamily: 'Menlo, monospace' }}>
             Select AI Strategy
           </h2>
           <p className="text-sm text-gray-400 mb-4 text-center">
-            Choose between two advanced AI systems to challenge yourself
+            Choose how strong your AI opponent plays
           </p>
           
           <div className="grid grid-cols-1 gap-4 mb-6">
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setupSingleplayer(AI_STRATEGY.SMART)}
-              className={`${buttonStyle.base} ${buttonStyle.primary}`}
-              style={{ fontFamily: 'Menlo, monospace' }}
-            >
-              <div className="text-left">
-                <div className="font-bold">Play vs AI</div>
-                <div className="text-xs text-gray-300">Strategic AI opponent</div>
-              </div>
-            </motion.button>
+            {AI_STRATEGIES.map(strategy => (
+              <motion.button
+                key={strategy}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => setupSingleplayer(strategy)}
+                className={`${buttonStyle.base} ${buttonStyle.primary}`}
+                style={{ fontFamily: 'Menlo, monospace' }}
+              >
+                <div className="text-left">
+                  <div className="font-bold">{AI_STRATEGY_LABELS[strategy]}</div>
+                  <div className="text-xs text-gray-300">{AI_STRATEGY_DESCRIPTIONS[strategy]}</div>
+                </div>
+              </motion.button>
+            ))}
           </div>
           
           <motion.button
@@ -478,6 +606,57 @@ const MainMenu: React.FC = () => {
         </motion.div>
       )}
       
+      {/* Saved Games Screen */}
+      {menuScreen === 'saved' && (
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="bg-black p-6 md:p-8 w-full max-w-md"
+          style={{ fontFamily: 'Menlo, monospace' }}
+        >
+          <h2 className="text-2xl font-bold mb-6 text-center">Saved Games</h2>
+
+          <div className="grid grid-cols-1 gap-3 mb-6">
+            {savedGames.length === 0 && <p className="text-center text-gray-400">No saved games</p>}
+            {savedGames.map(saved => (
+              <div key={saved.name} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate">{saved.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {saved.state.config.mode === 'base' ? 'Base' : 'Chain'} Reaction, turn {saved.state.turn}, {new Date(saved.savedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => openSavedGame(saved)}
+                    className="px-3 py-2 rounded-xl border-2 border-white text-sm bg-black hover:bg-gray-800"
+                  >
+                    Load
+                  </button>
+                  <button
+                    onClick={() => deleteSavedGame(saved.name)}
+                    className="px-3 py-2 rounded-xl border-2 border-white text-sm bg-black hover:bg-gray-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            transition={{ duration: 0.1 }}
+            onClick={() => setMenuScreen('main')}
+            className={`${buttonStyle.back}`}
+          >
+            Back
+          </motion.button>
+        </motion.div>
+      )}
+
       {/* Tutorial Content */}
       {menuScreen === 'tutorial-content' && (
         <div className="w-full max-w-3xl mt-20 md:mt-24"> {/* Add more top margin to avoid overlaying title */}
@@ -503,7 +682,8 @@ const MainMenu: React.FC = () => {
                   whileTap={{ scale: 0.95 }}
                   transition={{ duration: 0.1 }}
                   onClick={() => handleNumPlayersChange(num as 2 | 3 | 4)}
-                  className={`h-12 px-3 rounded-xl border-2 border-white text-lg transition-all duration-100 flex items-center justify-center ${
+                  disabled={!!selectedMap && selectedMap.players.length !== num}
+                  className={`h-12 px-3 rounded-xl border-2 border-white text-lg transition-all duration-100 flex items-center justify-center disabled:opacity-40 ${
                     numPlayers === num 
                       ? 'bg-white text-black hover:bg-gray-200'
                       : 'bg-black hover:bg-gray-800 text-white'
@@ -516,15 +696,20 @@ const MainMenu: React.FC = () => {
             </div>
           </div>
           
-
+          <BoardSettings
+            mode={selectedGameMode}
+            settings={boardSettings}
+            onChange={setBoardSettings}
+            onMapChange={map => map && handleNumPlayersChange(map.players.length as 2 | 3 | 4)}
+          />
 
           <div className="mb-4">
             <h3 className="text-lg font-semibold mb-2 text-center" style={{ fontFamily: 'Menlo, monospace' }}>Players</h3>
             <div className="flex justify-center">
               <div className="grid grid-cols-4 gap-2 w-fit">
               {playerConfigs.map((config) => (
+                <div key={config.player} className="flex flex-col items-center gap-1">
                 <motion.div 
-                  key={config.player} 
                   className={`w-14 h-14 rounded-full cursor-pointer relative ${config.player === PLAYER.BLACK ? 'border-2 border-white' : ''}`}
                   style={{ 
                     backgroundColor: PLAYER_COLORS[config.player]
@@ -553,6 +738,10 @@ const MainMenu: React.FC = () => {
                     )}
                   </div>
                 </motion.div>
+                <span className="text-xs" style={{ fontFamily: 'Menlo, monospace' }}>
+                  {config.control === PLAYER_CONTROL.AI ? AI_STRATEGY_LABELS[parseAIStrategy(config.aiStrategy)] : 'Human'}
+                </span>
+                </div>
               ))}
               </div>
             </div>
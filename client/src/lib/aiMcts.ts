@@ -0,0 +1,179 @@
+import { GameState, Position, applyMove, getValidMoves } from '@shared/engine';
+import { PLAYER } from './constants';
+import { HQ_HEALTH_WEIGHT, NO_SPAWNS, getMover, guessMoveValue, orderMoves } from './aiSearch';
+
+/*
+ * Monte Carlo Tree Search for the Monte Carlo AI. Every iteration walks down
+ * the tree by UCT, adds one new move, plays the game on from there with a
+ * cheap heuristic policy and credits every player with their share of the
+ * result. Each player picks moves by their own share (max-n), so it works the
+ * same for two to four players.
+ *
+ * The tree's positions come from the rules engine without power-up spawns;
+ * playouts draw spawns from the random source, so power-ups and the hearts
+ * they bring are part of what the playouts see. A pending heart is a node
+ * of its own, where its owner picks the target among the enemy HQs.
+ */
+
+export type MctsSettings = {
+  iterations: number;  // Playouts per move, which keeps its choices the same on any machine
+  timeLimitMs: number; // Safety cap on thinking time, Infinity for none; the first playout always runs
+  width: number;       // Moves tried per node, best guesses first
+  playoutDepth: number; // Plies per playout before the position is scored
+  exploration: number; // UCT exploration constant
+};
+
+export type MctsResult = {
+  move: Position;
+  visits: number;     // Playouts through the chosen move
+  value: number;      // Average share of the game for the mover after it, 0 to 1
+  iterations: number; // Playouts run in total
+};
+
+type MctsNode = {
+  move: Position | null; // Move that led here, null at the root
+  mover: PLAYER | null;  // Player who made it
+  state: GameState;
+  parent: MctsNode | null;
+  children: MctsNode[];
+  untried: Position[];
+  visits: number;
+  rewards: number[]; // Summed shares, by seat
+};
+
+// Playouts pick the best-looking of a few random moves
+const PLAYOUT_SAMPLES = 3;
+
+const createNode = (state: GameState, settings: MctsSettings, parent: MctsNode | null, move: Position | null, mover: PLAYER | null): MctsNode => ({
+  move,
+  mover,
+  state,
+  parent,
+  children: [],
+  untried: state.gameOver ? [] : orderMoves(state, getValidMoves(state)).slice(0, settings.width),
+  visits: 0,
+  rewards: state.config.players.map(() => 0)
+});
+
+/**
+ * Each seat's share of a position: everything to the winner once the game is
+ * over, otherwise in proportion to atoms and HQ health.
+ */
+const getShares = (state: GameState): number[] => {
+  const { players } = state.config;
+  if (state.gameOver) {
+    return players.map(player => (state.winner ? (player === state.winner ? 1 : 0) : 1 / players.length));
+  }
+
+  const material = players.map(() => 0);
+  state.grid.forEach(row => row.forEach(cell => {
+    if (cell.player) material[players.indexOf(cell.player)] += cell.atoms;
+  }));
+  state.hqs.forEach(hq => {
+    material[players.indexOf(hq.player)] += Math.max(0, hq.health) * HQ_HEALTH_WEIGHT;
+  });
+
+  const total = material.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? material.map(value => value / total) : players.map(() => 1 / players.length);
+};
+
+const pickPlayoutMove = (state: GameState, moves: Position[], random: () => number): Position => {
+  let best = moves[Math.floor(random() * moves.length)];
+  let bestValue = guessMoveValue(state, best);
+  for (let i = 1; i < PLAYOUT_SAMPLES; i++) {
+    const move = moves[Math.floor(random() * moves.length)];
+    const value = guessMoveValue(state, move);
+    if (value > bestValue) {
+      best = move;
+      bestValue = value;
+    }
+  }
+  return best;
+};
+
+const playout = (state: GameState, settings: MctsSettings, random: () => number): number[] => {
+  let position = state;
+  for (let ply = 0; ply < settings.playoutDepth && !position.gameOver; ply++) {
+    const moves = getValidMoves(position);
+    if (moves.length === 0) break;
+    position = applyMove(position, pickPlayoutMove(position, moves, random), random).nextState;
+  }
+  return getShares(position);
+};
+
+// UCT: a child's average share for the player choosing it, plus a bonus for
+// children seen less often
+const selectChild = (node: MctsNode, settings: MctsSettings): MctsNode => {
+  const { players } = node.state.config;
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  node.children.forEach(child => {
+    const seat = players.indexOf(child.mover!);
+    const value = child.rewards[seat] / child.visits + settings.exploration * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      best = child;
+      bestValue = value;
+    }
+  });
+  return best;
+};
+
+/**
+ * Choose a move for the player about to click by Monte Carlo Tree Search,
+ * running the set number of playouts unless the time limit cuts them short.
+ * Returns null when there is no legal move.
+ */
+export const mctsMove = (
+  state: GameState,
+  settings: MctsSettings,
+  random: () => number,
+  now: () => number = Date.now
+): MctsResult | null => {
+  const root = createNode(state, settings, null, null, null);
+  if (root.untried.length === 0) return null;
+
+  const deadline = now() + settings.timeLimitMs;
+  let iterations = 0;
+
+  while (iterations < settings.iterations && (iterations === 0 || now() < deadline)) {
+    // Selection
+    let node = root;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node, settings);
+    }
+
+    // Expansion
+    const move = node.untried.shift();
+    if (move) {
+      const child = createNode(applyMove(node.state, move, NO_SPAWNS).nextState, settings, node, move, getMover(node.state));
+      node.children.push(child);
+      node = child;
+    }
+
+    // Simulation and backpropagation
+    const shares = playout(node.state, settings, random);
+    for (let current: MctsNode | null = node; current; current = current.parent) {
+      current.visits++;
+      for (let seat = 0; seat < shares.length; seat++) {
+        current.rewards[seat] += shares[seat];
+      }
+    }
+    iterations++;
+  }
+
+  // Without any playouts, the best-looking move will have to do
+  if (root.children.length === 0) {
+    return { move: root.untried[0], visits: 0, value: 0, iterations };
+  }
+
+  // The most visited move is the most reliable choice
+  const best = root.children.reduce((a, b) => (b.visits > a.visits ? b : a));
+  const seat = state.config.players.indexOf(best.mover!);
+  return {
+    move: best.move!,
+    visits: best.visits,
+    value: best.rewards[seat] / best.visits,
+    iterations
+  };
+};
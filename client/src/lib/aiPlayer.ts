@@ -1,24 +1,90 @@
+import { BoardLayout, GameState, GridCell, Position, createRandom, deriveSeed, getNeighbors, getTopology, getValidMoves } from '@shared/engine';
 import { PLAYER } from './constants';
-import { GridCell, HQCell, PowerUpCell } from './stores/useChainReaction';
-import { calculateCriticalMass, isAdjacentTo } from './gameUtils';
+import { calculateCriticalMass } from './gameUtils';
+import { SearchSettings, searchMove } from './aiSearch';
+import { MctsSettings, mctsMove } from './aiMcts';
 
+// Difficulty tiers, weakest first, then the Monte Carlo bot
 export enum AI_STRATEGY {
-  SMART = 'smart'
+  EASY = 'easy',     // Near-random legal moves
+  MEDIUM = 'medium', // Personality heuristic
+  HARD = 'hard',     // Heuristic plus a short search
+  EXPERT = 'expert', // Heuristic plus a deeper, wider search
+  MCTS = 'mcts'      // Monte Carlo Tree Search, as strong as its budget
 }
 
+export const AI_STRATEGIES = [AI_STRATEGY.EASY, AI_STRATEGY.MEDIUM, AI_STRATEGY.HARD, AI_STRATEGY.EXPERT, AI_STRATEGY.MCTS];
+
+export const AI_STRATEGY_LABELS: Record<AI_STRATEGY, string> = {
+  [AI_STRATEGY.EASY]: 'Easy',
+  [AI_STRATEGY.MEDIUM]: 'Medium',
+  [AI_STRATEGY.HARD]: 'Hard',
+  [AI_STRATEGY.EXPERT]: 'Expert',
+  [AI_STRATEGY.MCTS]: 'Monte Carlo'
+};
+
+export const DEFAULT_AI_STRATEGY = AI_STRATEGY.MEDIUM;
+
+// Strategy of a stored controller. Older games used "smart", the personality
+// heuristic that is now Medium, and anything unknown falls back to it too.
+export const parseAIStrategy = (name?: string): AI_STRATEGY =>
+  AI_STRATEGIES.find(strategy => strategy === name) ?? DEFAULT_AI_STRATEGY;
+
+// How far Hard and Expert look ahead: the best heuristic moves are searched
+// through the rules engine, deeper until the depth or position budget runs out
+const SEARCH_SETTINGS: Record<AI_STRATEGY.HARD | AI_STRATEGY.EXPERT, SearchSettings> = {
+  [AI_STRATEGY.HARD]: { candidates: 6, width: 8, maxDepth: 2, maxNodes: 1000, timeLimitMs: Infinity },
+  [AI_STRATEGY.EXPERT]: { candidates: 10, width: 10, maxDepth: 6, maxNodes: 6000, timeLimitMs: Infinity }
+};
+
+// Thinking budget of the Monte Carlo bot, which sets its strength: a fixed
+// number of playouts per move, few enough to finish well inside the game's
+// time cap (GAME_TIME_LIMIT_MS) so that its games repeat too
+export const MCTS_SETTINGS: MctsSettings = { iterations: 300, timeLimitMs: Infinity, width: 12, playoutDepth: 30, exploration: 0.7 };
+
+// The AI's budgets count positions and playouts, so its choices repeat. The
+// game also stops it thinking after this long, in case a device is slow;
+// default budgets take a fraction of it, but a bot cut short plays differently
+// from one that finished, and its games no longer repeat.
+export const GAME_TIME_LIMIT_MS = 2000;
+
+// Changes to a strategy's default settings, for tuning bots against each other
+export type AISettingsOverrides = Partial<SearchSettings & MctsSettings>;
+
+// Default settings of a strategy, or null for those without any
+export const getDefaultAISettings = (strategy: AI_STRATEGY): SearchSettings | MctsSettings | null =>
+  strategy === AI_STRATEGY.HARD || strategy === AI_STRATEGY.EXPERT
+    ? SEARCH_SETTINGS[strategy]
+    : strategy === AI_STRATEGY.MCTS ? MCTS_SETTINGS : null;
+
+// Chance that Easy plays the heuristic move instead of a random one
+const EASY_HEURISTIC_CHANCE = 0.25;
+
 interface AIMove {
   row: number;
   col: number;
   score: number;
+  depth?: number;     // Plies searched, for Hard and Expert
+  positions?: number; // Positions played through the engine while searching
+  playouts?: number;  // Playouts run, for Monte Carlo
 }
 
-interface GameState {
-  grid: GridCell[][];
-  currentPlayer: PLAYER;
-  isBaseMode: boolean;
-  hqs?: HQCell[];
-  powerUps?: PowerUpCell[];
-}
+// How the AI came to a decision, for showing alongside the move
+export type AIAnalysis = {
+  strategy: AI_STRATEGY;
+  timeMs: number;
+  score?: number;
+  depth?: number;
+  positions?: number;
+  playouts?: number;
+};
+
+// The AI's answer for a position: its click (a move, or a heart's target) and
+// how it found it. The move is null when there is nothing to click.
+export type AIDecision = {
+  move: Position | null;
+  analysis: AIAnalysis;
+};
 
 interface StrategicEvaluation {
   aggressiveScore: number;     // How much damage this move can cause to enemies
@@ -41,107 +107,12 @@ interface AIPersonality {
   targetEnemy: PLAYER | null;  // Chosen enemy to focus attacks on
 }
 
-/**
- * Determines if a move is valid according to game rules
- */
-export const isValidMoveForAI = (
-  grid: GridCell[][],
-  row: number,
-  col: number,
-  currentPlayer: PLAYER,
-  isBaseMode: boolean,
-  hqs?: HQCell[]
-): boolean => {
-  // Cell is out of bounds
-  if (row < 0 || row >= grid.length || col < 0 || col >= grid[0].length) {
-    return false;
-  }
-
-  const cell = grid[row][col];
-  
-  // Check if this is an HQ cell (cannot place on HQ cells)
-  if (isBaseMode && hqs && hqs.some(hq => hq.row === row && hq.col === col)) {
-    return false;
-  }
-
-  // Classic Mode: Cell is empty or already owned by the current player
-  if (!isBaseMode) {
-    return cell.player === null || cell.player === currentPlayer;
-  }
-  
-  // Base Reaction Mode
-  
-  // Cell already has atoms and is owned by another player
-  if (cell.player !== null && cell.player !== currentPlayer) {
-    return false;
-  }
-  
-  // Check if this is the first move (player can only place on their row or column)
-  if (hqs) {
-    // Find the current player's HQ
-    const playerHQ = hqs.find(hq => hq.player === currentPlayer);
-    
-    if (playerHQ) {
-      // Check if this is the first move
-      let hasPlayerDots = false;
-      for (let r = 0; r < grid.length; r++) {
-        for (let c = 0; c < grid[r].length; c++) {
-          if (grid[r][c].player === currentPlayer && grid[r][c].atoms > 0) {
-            hasPlayerDots = true;
-            break;
-          }
-        }
-        if (hasPlayerDots) break;
-      }
-      
-      // First move - can only place on player's row or column
-      if (!hasPlayerDots) {
-        // Can only place on the row or column of the HQ
-        return row === playerHQ.row || col === playerHQ.col;
-      }
-      
-      // After first move - can place adjacent to existing dots or near HQ
-      let hasAdjacentDot = false;
-      
-      // Check if adjacent to player's HQ (3x3 area around HQ)
-      const nearHQ = Math.abs(row - playerHQ.row) <= 1 && Math.abs(col - playerHQ.col) <= 1;
-      
-      // Check if adjacent to any existing player dot
-      for (let r = 0; r < grid.length; r++) {
-        for (let c = 0; c < grid[r].length; c++) {
-          if (grid[r][c].player === currentPlayer && grid[r][c].atoms > 0) {
-            if (isAdjacentTo(row, col, r, c)) {
-              hasAdjacentDot = true;
-              break;
-            }
-          }
-        }
-        if (hasAdjacentDot) break;
-      }
-      
-      return nearHQ || hasAdjacentDot;
-    }
-  }
-  
-  return true;
-};
-
 /**
  * Get neighbors for AI calculations
  */
-const getNeighborsForAI = (row: number, col: number, rows: number, cols: number) => {
-  const neighbors = [];
-  const directions = [[-1, 0], [1, 0], [0, -1], [0, 1]]; // Up, Down, Left, Right
-  
-  for (const [dr, dc] of directions) {
-    const nr = row + dr;
-    const nc = col + dc;
-    if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) {
-      neighbors.push({ nr, nc });
-    }
-  }
-  
-  return neighbors;
+const getNeighborsForAI = (grid: GridCell[][], row: number, col: number, layout: BoardLayout) => {
+  return getNeighbors({ rows: grid.length, cols: grid[0].length, grid, ...layout }, row, col)
+    .map(({ row: nr, col: nc }) => ({ nr, nc }));
 };
 
 /**
@@ -152,7 +123,8 @@ const evaluateStrategicMove = (
   row: number,
   col: number,
   currentPlayer: PLAYER,
-  gameState: GameState
+  gameState: GameState,
+  random: () => number
 ): StrategicEvaluation => {
   const evaluation: StrategicEvaluation = {
     aggressiveScore: 0,
@@ -165,8 +137,9 @@ const evaluateStrategicMove = (
 
   const rows = grid.length;
   const cols = grid[0].length;
+  const layout: BoardLayout = { topology: gameState.topology, wrap: gameState.wrap };
   const cell = grid[row][col];
-  const criticalMass = calculateCriticalMass(row, col, rows, cols);
+  const criticalMass = calculateCriticalMass(grid, row, col, layout);
 
   // 1. POWER-UP SCORING - COMPLETELY OVERHAULED for actual power-up chasing
   if (gameState.isBaseMode && gameState.powerUps) {
@@ -174,7 +147,6 @@ const evaluateStrategicMove = (
     if (powerUpAtPosition) {
         // Power-ups are THE HIGHEST PRIORITY - should override almost all other considerations
         evaluation.powerUpScore = 5000; // EXTREMELY MASSIVE values - higher than anything else
-        console.log(`🎯 AI found power-up at (${row},${col}) - PRIORITY MOVE! Score: 5000`);
     }
 
     // VERY strong bonus for being near power-ups with clear path
@@ -184,20 +156,22 @@ const evaluateStrategicMove = (
         // Much higher proximity bonus and scale with distance
         const proximityBonus = (4 - distanceToPowerUp) * 500; // 500, 1000, 1500, 2000 based on distance
         evaluation.powerUpScore += proximityBonus;
-        console.log(`🎯 AI evaluating move near power-up (${powerUp.row},${powerUp.col}). Distance: ${distanceToPowerUp}, Bonus: ${proximityBonus}`);
       }
     });
   }
 
   // 2. POSITION SCORING - Different strategies for different game modes
-  const isCorner = (row === 0 || row === rows - 1) && (col === 0 || col === cols - 1);
-  const isEdge = row === 0 || row === rows - 1 || col === 0 || col === cols - 1;
+  // Walls count like board edges, so judge position by open neighbours
+  // against what a cell in open space has (4 square, 6 hex, 8 Moore)
+  const { maxNeighbors } = getTopology(layout.topology);
+  const isCorner = criticalMass <= maxNeighbors / 2;
+  const isEdge = !isCorner && criticalMass < maxNeighbors;
   
   if (!gameState.isBaseMode) {
     // CLASSIC MODE: Corners are valuable but not obsessively so, with randomness
-    const cornerBonus = 20 + Math.random() * 20; // 15-40 random bonus
-    const edgeBonus = 8 + Math.random() * 10;   // 8-18 random bonus
-    const centerBonus = 2 + Math.random() * 8;  // 2-10 random bonus
+    const cornerBonus = 20 + random() * 20; // 15-40 random bonus
+    const edgeBonus = 8 + random() * 10;   // 8-18 random bonus
+    const centerBonus = 2 + random() * 8;  // 2-10 random bonus
     
     if (isCorner) {
       evaluation.territoryScore += cornerBonus;
@@ -208,12 +182,12 @@ const evaluateStrategicMove = (
     }
     
     // In classic mode, avoid placing next to enemy cells initially (with some randomness)
-    const neighbors = getNeighborsForAI(row, col, rows, cols);
+    const neighbors = getNeighborsForAI(grid, row, col, layout);
     let enemyNeighborPenalty = 0;
     neighbors.forEach(({nr, nc}) => {
       const neighborCell = grid[nr][nc];
       if (neighborCell.player && neighborCell.player !== currentPlayer) {
-        enemyNeighborPenalty += 10 + Math.random() * 10; // 10-20 random penalty
+        enemyNeighborPenalty += 10 + random() * 10; // 10-20 random penalty
       }
     });
     evaluation.aggressiveScore -= enemyNeighborPenalty;
@@ -228,14 +202,14 @@ const evaluateStrategicMove = (
       }
     });
     if (!hasOwnNeighbor) {
-      isolationBonus += 8 + Math.random() * 12; // 8-20 random bonus for spreading
+      isolationBonus += 8 + random() * 12; // 8-20 random bonus for spreading
     }
     evaluation.territoryScore += isolationBonus;
   } else {
     // BASE MODE: Corners and edges are much less important, focus on center
-    const cornerBonus = 1 + Math.random() * 6;  // 2-8 low corner value
-    const edgeBonus = 3 + Math.random() * 6;    // 1-5 low edge value  
-    const centerBonus = 1 + Math.random() * 6;  // 6-14 higher center value
+    const cornerBonus = 1 + random() * 6;  // 2-8 low corner value
+    const edgeBonus = 3 + random() * 6;    // 1-5 low edge value  
+    const centerBonus = 1 + random() * 6;  // 6-14 higher center value
     
     if (isCorner) {
       evaluation.territoryScore += cornerBonus;
@@ -253,8 +227,7 @@ const evaluateStrategicMove = (
   
   // Check if this move will cause an immediate explosion (CRITICAL for damage timing)
   if (cell.atoms + 1 >= criticalMass) {
-    console.log(`💥 AI evaluating IMMEDIATE EXPLOSION at (${row},${col}) - atoms will be ${cell.atoms + 1}/${criticalMass}`);
-    const neighbors = getNeighborsForAI(row, col, rows, cols);
+    const neighbors = getNeighborsForAI(grid, row, col, layout);
     
     neighbors.forEach(({nr, nc}) => {
       const neighborCell = grid[nr][nc];
@@ -264,7 +237,6 @@ const evaluateStrategicMove = (
         const immediateDamage = neighborCell.atoms * 100; // Much higher than before
         evaluation.aggressiveScore += immediateDamage;
         immediateExplosionBonus += 1000; // Huge bonus for ANY immediate explosion that hits enemies
-        console.log(`💥 IMMEDIATE ENEMY DAMAGE at neighbor (${nr},${nc}) - atoms: ${neighborCell.atoms}, damage bonus: ${immediateDamage}`);
       }
     });
     
@@ -280,15 +252,14 @@ const evaluateStrategicMove = (
   // PENALTY for placing on cells that already have enemy presence nearby
   if (cell.player && cell.player !== currentPlayer) {
     placementStrategyScore -= 300; // Strong penalty for placing on enemy cells
-    console.log(`⚠️ AI penalizing placement on enemy cell at (${row},${col})`);
   }
   
   // BONUS for strategic timing - prefer moves that will explode BEFORE nearby enemies can
-  const neighbors = getNeighborsForAI(row, col, rows, cols);
+  const neighbors = getNeighborsForAI(grid, row, col, layout);
   neighbors.forEach(({nr, nc}) => {
     const neighborCell = grid[nr][nc];
     if (neighborCell.player && neighborCell.player !== currentPlayer) {
-      const neighborCriticalMass = calculateCriticalMass(nr, nc, rows, cols);
+      const neighborCriticalMass = calculateCriticalMass(grid, nr, nc, layout);
       const ourTimeToExplode = criticalMass - (cell.atoms + 1); // How many more atoms we need
       const enemyTimeToExplode = neighborCriticalMass - neighborCell.atoms; // How many more atoms they need
       
@@ -296,7 +267,6 @@ const evaluateStrategicMove = (
         // We can explode before or at the same time as the enemy - GOOD!
         const timingBonus = (enemyTimeToExplode - ourTimeToExplode + 1) * 150;
         placementStrategyScore += timingBonus;
-        console.log(`⏱️ STRATEGIC TIMING at (${row},${col}): We explode in ${ourTimeToExplode}, enemy at (${nr},${nc}) explodes in ${enemyTimeToExplode}. Bonus: ${timingBonus}`);
       }
     }
   });
@@ -395,7 +365,7 @@ const evaluateStrategicMove = (
   }
 
   // 6. CHAIN REACTION SCORING - Look for massive chain reaction potential
-  const chainPotential = calculateChainReactionPotential(grid, row, col, currentPlayer);
+  const chainPotential = calculateChainReactionPotential(grid, row, col, currentPlayer, layout);
   evaluation.chainReactionScore = chainPotential * 10;
 
   return evaluation;
@@ -408,10 +378,9 @@ const calculateChainReactionPotential = (
   grid: GridCell[][],
   row: number,
   col: number,
-  currentPlayer: PLAYER
+  currentPlayer: PLAYER,
+  layout: BoardLayout
 ): number => {
-  const rows = grid.length;
-  const cols = grid[0].length;
   let chainPotential = 0;
 
   // Simulate what happens if we place a dot here
@@ -420,22 +389,29 @@ const calculateChainReactionPotential = (
   cell.atoms++;
   cell.player = currentPlayer;
 
-  const criticalMass = calculateCriticalMass(row, col, rows, cols);
+  const criticalMass = calculateCriticalMass(grid, row, col, layout);
   if (cell.atoms >= criticalMass) {
     // This cell will explode, check how many neighboring cells might also explode
-    const neighbors = getNeighborsForAI(row, col, rows, cols);
+    const neighbors = getNeighborsForAI(grid, row, col, layout);
+    // Neighbourhoods overlap heavily on hex and Moore boards, so count each
+    // second-level cell once and skip cells already counted
+    const counted = new Set([`${row},${col}`, ...neighbors.map(({nr, nc}) => `${nr},${nc}`)]);
     neighbors.forEach(({nr, nc}) => {
       const neighborCell = simulatedGrid[nr][nc];
-      const neighborCritical = calculateCriticalMass(nr, nc, rows, cols);
+      const neighborCritical = calculateCriticalMass(grid, nr, nc, layout);
       
       if (neighborCell.atoms + 1 >= neighborCritical) {
         chainPotential += 5; // Each potential chain reaction cell
         
         // Look one level deeper
-        const secondNeighbors = getNeighborsForAI(nr, nc, rows, cols);
+        const secondNeighbors = getNeighborsForAI(grid, nr, nc, layout);
         secondNeighbors.forEach(({nr: nnr, nc: nnc}) => {
+          const key = `${nnr},${nnc}`;
+          if (counted.has(key)) return;
+          counted.add(key);
+
           const secondCell = simulatedGrid[nnr][nnc];
-          const secondCritical = calculateCriticalMass(nnr, nnc, rows, cols);
+          const secondCritical = calculateCriticalMass(grid, nnr, nnc, layout);
           if (secondCell.atoms + 1 >= secondCritical) {
             chainPotential += 2;
           }
@@ -450,20 +426,20 @@ const calculateChainReactionPotential = (
 /**
  * Generates a random AI personality for each game to prevent predictable behavior
  */
-function generateAIPersonality(): AIPersonality {
+function generateAIPersonality(random: () => number): AIPersonality {
   // Choose a random enemy to target (will be set when AI gets initialized with opponents)
   const possibleEnemies = [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE, PLAYER.BLACK];
-  const targetEnemy = possibleEnemies[Math.floor(Math.random() * possibleEnemies.length)];
+  const targetEnemy = possibleEnemies[Math.floor(random() * possibleEnemies.length)];
   
   // Make ALL AI more baseline aggressive while keeping variety
   return {
-    aggressiveness: 1.2 + Math.random() * 1.8,      // 1.2-3.0 (MUCH more aggressive baseline)
-    defensiveness: 0.8 + Math.random() * 2.2,       // 0.8-3.0 (defensive when needed)
-    baseHuntingThirst: 1.0 + Math.random() * 2.0,   // 1.0-3.0 (always some base hunting)
-    powerUpHunting: 2.5 + Math.random() * 0.5,      // 2.5-3.0 (ALWAYS prioritize power-ups)
-    territorialness: 0.8 + Math.random() * 1.7,     // 0.8-2.5 (reasonable territory interest)
-    cornerPreference: 0.3 + Math.random() * 1.2,    // 0.3-1.5 (moderate corner preference)
-    spreadTendency: 1.0 + Math.random() * 1.5,      // 1.0-2.5 (prefer aggressive spreading)
+    aggressiveness: 1.2 + random() * 1.8,      // 1.2-3.0 (MUCH more aggressive baseline)
+    defensiveness: 0.8 + random() * 2.2,       // 0.8-3.0 (defensive when needed)
+    baseHuntingThirst: 1.0 + random() * 2.0,   // 1.0-3.0 (always some base hunting)
+    powerUpHunting: 2.5 + random() * 0.5,      // 2.5-3.0 (ALWAYS prioritize power-ups)
+    territorialness: 0.8 + random() * 1.7,     // 0.8-2.5 (reasonable territory interest)
+    cornerPreference: 0.3 + random() * 1.2,    // 0.3-1.5 (moderate corner preference)
+    spreadTendency: 1.0 + random() * 1.5,      // 1.0-2.5 (prefer aggressive spreading)
     targetEnemy: targetEnemy                        // Random enemy to focus on
   };
 }
@@ -473,19 +449,22 @@ function generateAIPersonality(): AIPersonality {
  * Each AI has unique personality traits that make it behave differently
  */
 class PersonalityBasedAI {
-  private personalities: Map<PLAYER, AIPersonality> = new Map();
+  // Keyed by game seed and player, so a game always gets the same personalities
+  private personalities: Map<string, AIPersonality> = new Map();
   
-  getPersonality(player: PLAYER): AIPersonality {
-    if (!this.personalities.has(player)) {
-      const personality = generateAIPersonality();
-      // Set target enemy to a different player
-      const possibleEnemies = [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE, PLAYER.BLACK].filter(p => p !== player);
-      personality.targetEnemy = possibleEnemies[Math.floor(Math.random() * possibleEnemies.length)];
+  getPersonality(player: PLAYER, gameState: GameState): AIPersonality {
+    const { seed, players } = gameState.config;
+    const key = `${seed}:${player}`;
+    if (!this.personalities.has(key)) {
+      const random = createRandom(deriveSeed(seed, players.indexOf(player))).next;
+      const personality = generateAIPersonality(random);
+      // Set target enemy to a different player in this game
+      const possibleEnemies = players.filter(p => p !== player);
+      personality.targetEnemy = possibleEnemies[Math.floor(random() * possibleEnemies.length)];
       
-      this.personalities.set(player, personality);
-      console.log(`🎭 Generated FRESH personality for ${player}: aggr=${personality.aggressiveness.toFixed(1)}, def=${personality.defensiveness.toFixed(1)}, powerUp=${personality.powerUpHunting.toFixed(1)}, target=${personality.targetEnemy}`);
+      this.personalities.set(key, personality);
     }
-    return this.personalities.get(player)!;
+    return this.personalities.get(key)!;
   }
 
   // Reset personalities for new game
@@ -500,23 +479,11 @@ class PersonalityBasedAI {
     row: number,
     col: number,
     currentPlayer: PLAYER,
-    gameState: GameState
+    gameState: GameState,
+    random: () => number
   ): number {
-    // Handle full board evaluation case for minimax
-    if (row === -1 && col === -1) {
-      let totalScore = 0;
-      for (let r = 0; r < grid.length; r++) {
-        for (let c = 0; c < grid[0].length; c++) {
-          if (grid[r][c].player === currentPlayer) {
-            totalScore += grid[r][c].atoms * 10;
-          }
-        }
-      }
-      return totalScore;
-    }
-
-    const evaluation = evaluateStrategicMove(grid, row, col, currentPlayer, gameState);
-    const personality = this.getPersonality(currentPlayer);
+    const evaluation = evaluateStrategicMove(grid, row, col, currentPlayer, gameState, random);
+    const personality = this.getPersonality(currentPlayer, gameState);
     
     // Check if this move threatens our chosen target enemy
     let targetEnemyBonus = 0;
@@ -542,11 +509,6 @@ class PersonalityBasedAI {
     const powerUpMultiplier = Math.max(1.0, personality.powerUpHunting); // Ensure power-ups are NEVER ignored
     baseScore += evaluation.powerUpScore * powerUpMultiplier; // Direct application - no dilution!
     
-    // Log power-up scoring for debugging
-    if (evaluation.powerUpScore > 0) {
-      console.log(`🎯 AI (${currentPlayer}) power-up scoring: base=${evaluation.powerUpScore}, personality=${personality.powerUpHunting}, final=${evaluation.powerUpScore * powerUpMultiplier}`);
-    }
-    
     // Other scoring with more balanced weights
     baseScore += evaluation.aggressiveScore * personality.aggressiveness * 2.5; // HIGHER weight for immediate damage
     baseScore += evaluation.baseThreatScore * personality.aggressiveness * personality.baseHuntingThirst * 2.0;
@@ -557,124 +519,48 @@ class PersonalityBasedAI {
     
     // Add significant randomness based on base-hunting personality
     const baseRandomness = personality.baseHuntingThirst * 0.3; // 0.06-0.9
-    const randomness = (Math.random() - 0.5) * 2 * baseRandomness;
+    const randomness = (random() - 0.5) * 2 * baseRandomness;
     baseScore += randomness * Math.max(15, Math.abs(baseScore) * 0.2);
     
     // Additional chaos factor to prevent identical games
-    const chaosBonus = (Math.random() - 0.5) * 25 * personality.baseHuntingThirst;
+    const chaosBonus = (random() - 0.5) * 25 * personality.baseHuntingThirst;
     baseScore += chaosBonus;
     
     return baseScore;
   }
 
-  // Simple minimax with alpha-beta pruning (3 levels deep)
-  minimax(
-    grid: GridCell[][],
-    depth: number,
-    isMaximizing: boolean,
-    alpha: number,
-    beta: number,
-    currentPlayer: PLAYER,
-    gameState: GameState
-  ): number {
-    if (depth === 0) {
-      return this.evaluateMove(grid, -1, -1, currentPlayer, gameState); // Full board evaluation
-    }
-
-    const validMoves = this.getValidMoves(grid, currentPlayer, gameState.isBaseMode, gameState.hqs);
-    
-    if (isMaximizing) {
-      let maxEval = -Infinity;
-      for (const move of validMoves) {
-        const newGrid = this.simulateMove(grid, move.row, move.col, currentPlayer);
-        const evaluation = this.minimax(newGrid, depth - 1, false, alpha, beta, this.getNextPlayer(currentPlayer), gameState);
-        maxEval = Math.max(maxEval, evaluation);
-        alpha = Math.max(alpha, evaluation);
-        if (beta <= alpha) break; // Alpha-beta pruning
-      }
-      return maxEval;
-    } else {
-      let minEval = Infinity;
-      for (const move of validMoves) {
-        const newGrid = this.simulateMove(grid, move.row, move.col, currentPlayer);
-        const evaluation = this.minimax(newGrid, depth - 1, true, alpha, beta, this.getNextPlayer(currentPlayer), gameState);
-        minEval = Math.min(minEval, evaluation);
-        beta = Math.min(beta, evaluation);
-        if (beta <= alpha) break; // Alpha-beta pruning
-      }
-      return minEval;
-    }
-  }
-
-  getValidMoves(grid: GridCell[][], player: PLAYER, isBaseMode: boolean, hqs?: HQCell[]): AIMove[] {
-    const moves: AIMove[] = [];
-    for (let row = 0; row < grid.length; row++) {
-      for (let col = 0; col < grid[0].length; col++) {
-        if (isValidMoveForAI(grid, row, col, player, isBaseMode, hqs)) {
-          moves.push({ row, col, score: 0 });
-        }
-      }
-    }
-    return moves;
+  // Legal moves according to the shared rules engine
+  getValidMoves(gameState: GameState): AIMove[] {
+    return getValidMoves(gameState).map(({ row, col }) => ({ row, col, score: 0 }));
   }
 
-  simulateMove(grid: GridCell[][], row: number, col: number, player: PLAYER): GridCell[][] {
-    const newGrid = grid.map(row => row.map(cell => ({ ...cell })));
-    newGrid[row][col] = { atoms: (newGrid[row][col].atoms || 0) + 1, player };
-    return newGrid;
-  }
+  // A legal move onto a power-up, which every tier above Easy takes at once
+  findPowerUpMove(gameState: GameState, validMoves: AIMove[]): AIMove | null {
+    const { isBaseMode, powerUps } = gameState;
+    if (!isBaseMode || !powerUps) return null;
 
-  getNextPlayer(current: PLAYER): PLAYER {
-    switch (current) {
-      case PLAYER.RED: return PLAYER.BLUE;
-      case PLAYER.BLUE: return PLAYER.ORANGE;
-      case PLAYER.ORANGE: return PLAYER.BLACK;
-      case PLAYER.BLACK: return PLAYER.RED;
+    for (const move of validMoves) {
+      const powerUpAtPosition = powerUps.find(pu => pu.row === move.row && pu.col === move.col);
+      if (powerUpAtPosition) {
+        return { ...move, score: 10000 }; // Highest possible score
+      }
     }
+    return null;
   }
 
-  getBestMove(
-    grid: GridCell[][],
-    currentPlayer: PLAYER,
-    isBaseMode: boolean,
-    hqs?: HQCell[],
-    powerUps?: PowerUpCell[]
-  ): AIMove | null {
-    const personality = this.getPersonality(currentPlayer);
-    const gameState: GameState = {
-      grid,
-      currentPlayer,
-      isBaseMode,
-      hqs,
-      powerUps
-    };
-
-    const validMoves = this.getValidMoves(grid, currentPlayer, isBaseMode, hqs);
+  // Score every move with the personality heuristic, best first
+  rankMoves(gameState: GameState, validMoves: AIMove[], random: () => number): AIMove[] {
+    const { grid, currentPlayer, isBaseMode, hqs } = gameState;
 
-    if (validMoves.length === 0) {
-      return null;
-    }
-
-    // FIRST: Check for direct power-up moves - these get ABSOLUTE PRIORITY
-    if (isBaseMode && powerUps) {
-      for (const move of validMoves) {
-        const powerUpAtPosition = powerUps.find(pu => pu.row === move.row && pu.col === move.col);
-        if (powerUpAtPosition) {
-          console.log(`🎯 POWER-UP PRIORITY! AI ${currentPlayer} found power-up at (${move.row},${move.col}) - selecting immediately!`);
-          return { ...move, score: 10000 }; // Highest possible score
-        }
-      }
-    }
-
-    // SECOND: Use direct evaluation (not minimax) to get true scores
+    // Use direct evaluation (not minimax) to get true scores
     for (const move of validMoves) {
-      move.score = this.evaluateMove(grid, move.row, move.col, currentPlayer, gameState);
+      move.score = this.evaluateMove(grid, move.row, move.col, currentPlayer, gameState, random);
     }
 
     // Sort moves by score (highest first)
     validMoves.sort((a, b) => b.score - a.score);
 
-    // THIRD: Enhanced defensive check - if enemy very close to our base, prioritize defense
+    // Enhanced defensive check - if enemy very close to our base, prioritize defense
     if (isBaseMode && hqs) {
       const ourHQ = hqs.find(hq => hq.player === currentPlayer);
       if (ourHQ) {
@@ -684,7 +570,6 @@ class PersonalityBasedAI {
             const threatCell = grid[r][c];
             if (threatCell.player && threatCell.player !== currentPlayer && threatCell.atoms >= 2) {
               criticalThreat = true;
-              console.log(`⚠️ CRITICAL THREAT detected near base at (${r},${c}) with ${threatCell.atoms} atoms!`);
               break;
             }
           }
@@ -704,15 +589,65 @@ class PersonalityBasedAI {
       }
     }
 
+    return validMoves;
+  }
+
+  getBestMove(gameState: GameState, random: () => number): AIMove | null {
+    const validMoves = this.getValidMoves(gameState);
+
+    if (validMoves.length === 0) {
+      return null;
+    }
+
+    const powerUpMove = this.findPowerUpMove(gameState, validMoves);
+    if (powerUpMove) {
+      return powerUpMove;
+    }
+
+    this.rankMoves(gameState, validMoves, random);
+
     // Select from top moves with some randomness
     const topMoveCount = Math.max(1, Math.min(3, validMoves.length)); // Always consider top 1-3 moves
-    const bestMoveIndex = Math.floor(Math.random() * topMoveCount);
+    const bestMoveIndex = Math.floor(random() * topMoveCount);
     const bestMove = validMoves[bestMoveIndex];
     
-    console.log(`🎭 AI ${currentPlayer} (aggr:${personality.aggressiveness.toFixed(1)}, def:${personality.defensiveness.toFixed(1)}, powerUp:${personality.powerUpHunting.toFixed(1)}) chose (${bestMove.row},${bestMove.col}) with score ${bestMove.score.toFixed(1)}`);
-    
     return bestMove;
   }
+
+  // Near-random play: any legal move, now and then the heuristic one
+  getEasyMove(gameState: GameState, random: () => number): AIMove | null {
+    const validMoves = this.getValidMoves(gameState);
+    if (validMoves.length === 0) {
+      return null;
+    }
+    if (random() < EASY_HEURISTIC_CHANCE) {
+      return this.getBestMove(gameState, random);
+    }
+    return validMoves[Math.floor(random() * validMoves.length)];
+  }
+
+  // Search the best heuristic moves ahead through the rules engine and play
+  // the one that holds up best against the others' replies
+  getSearchMove(gameState: GameState, random: () => number, settings: SearchSettings): AIMove | null {
+    const validMoves = this.getValidMoves(gameState);
+
+    if (validMoves.length === 0) {
+      return null;
+    }
+
+    const powerUpMove = this.findPowerUpMove(gameState, validMoves);
+    if (powerUpMove) {
+      return powerUpMove;
+    }
+
+    const candidates = this.rankMoves(gameState, validMoves, random).slice(0, settings.candidates);
+    const result = searchMove(gameState, candidates, settings);
+    if (!result) {
+      return null;
+    }
+
+    return { ...result.move, score: result.value, depth: result.depth, positions: result.nodes };
+  }
 }
 
 // Global AI instance
@@ -724,25 +659,41 @@ export const resetAIPersonalities = () => {
   personalityAI.resetPersonalities();
 };
 
+// Randomness for one AI decision. It follows from the game's random state and
+// turn, so the same seed and moves always lead to the same AI choices.
+const createDecisionRandom = (gameState: GameState) =>
+  createRandom(deriveSeed(gameState.rng, gameState.turn)).next;
+
+// Monte Carlo move, scored by its expected share of the game
+const getMctsMove = (gameState: GameState, random: () => number, settings: MctsSettings): AIMove | null => {
+  const result = mctsMove(gameState, settings, random);
+  if (!result) {
+    return null;
+  }
+  return { ...result.move, score: result.value, playouts: result.iterations };
+};
+
 /**
  * Main entry point for AI move calculation
  */
 export const getAIMove = (
-  grid: GridCell[][],
-  currentPlayer: PLAYER,
-  isBaseMode: boolean,
-  hqs?: HQCell[],
-  strategy: AI_STRATEGY = AI_STRATEGY.SMART,
-  powerUps?: PowerUpCell[]
+  gameState: GameState,
+  strategy: AI_STRATEGY = DEFAULT_AI_STRATEGY,
+  overrides: AISettingsOverrides = {}
 ): AIMove | null => {
-  console.log(`🎯 AI ${currentPlayer} starting move calculation with personality-based strategy`);
+  const { currentPlayer } = gameState;
   
   try {
-    const move = personalityAI.getBestMove(grid, currentPlayer, isBaseMode, hqs, powerUps);
+    const random = createDecisionRandom(gameState);
+    const move = strategy === AI_STRATEGY.EASY
+      ? personalityAI.getEasyMove(gameState, random)
+      : strategy === AI_STRATEGY.HARD || strategy === AI_STRATEGY.EXPERT
+        ? personalityAI.getSearchMove(gameState, random, { ...SEARCH_SETTINGS[strategy], ...overrides })
+        : strategy === AI_STRATEGY.MCTS
+          ? getMctsMove(gameState, random, { ...MCTS_SETTINGS, ...overrides })
+          : personalityAI.getBestMove(gameState, random);
     
-    if (move) {
-      console.log(`✅ AI ${currentPlayer} selected move: (${move.row}, ${move.col}) with score ${move.score.toFixed(1)}`);
-    } else {
+    if (!move) {
       console.warn(`❌ AI ${currentPlayer} could not find a valid move`);
     }
     
@@ -751,4 +702,51 @@ export const getAIMove = (
     console.error(`💥 AI ${currentPlayer} error:`, error);
     return null;
   }
-};
\ No newline at end of file
+};
+
+// Enemy HQ to hit with a heart power-up, or null when there is none.
+// Searching bots weigh the targets; the others pick one at random.
+export const getAIHeartTarget = (
+  gameState: GameState,
+  strategy: AI_STRATEGY = DEFAULT_AI_STRATEGY,
+  overrides: AISettingsOverrides = {}
+): Position | null => {
+  const player = gameState.pendingHeartPlayer ?? gameState.currentPlayer;
+  const enemyHQs = gameState.hqs.filter(hq => hq.player !== player);
+  if (enemyHQs.length === 0) return null;
+
+  const random = createDecisionRandom(gameState);
+  const targets = enemyHQs.map(({ row, col }) => ({ row, col }));
+  if (strategy === AI_STRATEGY.HARD || strategy === AI_STRATEGY.EXPERT) {
+    return searchMove(gameState, targets, { ...SEARCH_SETTINGS[strategy], ...overrides })?.move ?? null;
+  }
+  if (strategy === AI_STRATEGY.MCTS) {
+    return mctsMove(gameState, { ...MCTS_SETTINGS, ...overrides }, random)?.move ?? null;
+  }
+  return targets[Math.floor(random() * targets.length)];
+};
+
+/**
+ * Decide the next click for whoever is to play: a move, or the target of a
+ * pending heart. This is what the AI worker answers each request with, and
+ * what the tournament runner plays bots with.
+ */
+export const getAIDecision = (
+  gameState: GameState,
+  strategy: AI_STRATEGY = DEFAULT_AI_STRATEGY,
+  overrides: AISettingsOverrides = {}
+): AIDecision => {
+  const startedAt = Date.now();
+
+  if (gameState.pendingHeartPlayer) {
+    const target = getAIHeartTarget(gameState, strategy, overrides);
+    return { move: target, analysis: { strategy, timeMs: Date.now() - startedAt } };
+  }
+
+  const move = getAIMove(gameState, strategy, overrides);
+  if (!move) {
+    return { move: null, analysis: { strategy, timeMs: Date.now() - startedAt } };
+  }
+  const { row, col, ...details } = move;
+  return { move: { row, col }, analysis: { strategy, timeMs: Date.now() - startedAt, ...details } };
+};
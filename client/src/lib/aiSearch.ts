@@ -0,0 +1,184 @@
+import { GameState, Position, applyMove, getCriticalMass, getNeighbors, getValidMoves, isEliminated } from '@shared/engine';
+import { PLAYER } from './constants';
+
+/*
+ * Look-ahead for the Hard and Expert AI tiers. Moves are played through the
+ * rules engine, so explosions, captures, HQ damage, power-ups and eliminations
+ * all happen as they would in the game; only new power-up spawns are left out,
+ * since they depend on chance.
+ *
+ * With three or four players the search is paranoid: every opponent is
+ * assumed to play against the searching player, which turns the game into a
+ * two-sided one where alpha-beta pruning works. Depth grows one ply at a time
+ * until the budget of positions runs out, and the deepest finished search
+ * decides. Counting positions rather than time keeps every choice the same on
+ * any machine; the game can add a time limit on top as a safety net.
+ */
+
+export type SearchSettings = {
+  candidates: number; // Moves considered at the root, best heuristic ones first
+  width: number;      // Moves considered at every deeper node, best ordered first
+  maxDepth: number;   // Plies to search at most
+  maxNodes: number;   // Positions to play per move at most; the first ply always finishes
+  timeLimitMs: number; // Safety cap on thinking time, Infinity for none
+};
+
+export type SearchResult = {
+  move: Position;
+  value: number; // Evaluation for the searching player after best play
+  depth: number; // Deepest fully searched ply count
+  nodes: number; // Positions played through the engine
+};
+
+// Score of a won game, well above anything material can reach
+const WIN_SCORE = 1000000;
+
+// Value of one HQ health point against one atom
+export const HQ_HEALTH_WEIGHT = 60;
+
+// Raised to abandon an iteration that ran out of budget
+class SearchBudgetExceeded extends Error {}
+
+// Spawns are left out: with a source that never goes below the spawn chance,
+// no power-up appears
+export const NO_SPAWNS = () => 1;
+
+// The player who clicks next, including a heart's owner picking its target
+export const getMover = (state: GameState): PLAYER => state.pendingHeartPlayer ?? state.currentPlayer;
+
+/**
+ * Static evaluation of a position for one player: atoms and HQ health against
+ * every opponent's combined, or a win or loss when the game is decided.
+ */
+export const evaluatePosition = (state: GameState, player: PLAYER): number => {
+  if (state.gameOver) {
+    if (!state.winner) return 0;
+    // Quicker wins and slower losses score better
+    return state.winner === player ? WIN_SCORE - state.turn : -WIN_SCORE + state.turn;
+  }
+  if (isEliminated(state, player)) {
+    return -WIN_SCORE + state.turn;
+  }
+
+  let score = 0;
+  state.grid.forEach(row => row.forEach(cell => {
+    if (cell.player === player) {
+      score += cell.atoms;
+    } else if (cell.player) {
+      score -= cell.atoms;
+    }
+  }));
+  state.hqs.forEach(hq => {
+    score += (hq.player === player ? hq.health : -hq.health) * HQ_HEALTH_WEIGHT;
+  });
+  return score;
+};
+
+// Cheap guess at how good a move is, so likely strong moves are searched first:
+// cells about to explode next to enemies, then loaded cells of our own
+export const guessMoveValue = (state: GameState, { row, col }: Position): number => {
+  if (state.pendingHeartPlayer) return 0;
+
+  const cell = state.grid[row][col];
+  let score = cell.atoms;
+  if (state.powerUps.some(powerUp => powerUp.row === row && powerUp.col === col)) {
+    score += 50;
+  }
+  if (cell.atoms + 1 >= getCriticalMass(state, row, col)) {
+    score += 20;
+    getNeighbors(state, row, col).forEach(({ row: r, col: c }) => {
+      const neighbor = state.grid[r][c];
+      if (neighbor.player && neighbor.player !== state.currentPlayer) {
+        score += 10 + neighbor.atoms * 5;
+      }
+    });
+  }
+  return score;
+};
+
+export const orderMoves = (state: GameState, moves: Position[]): Position[] =>
+  moves
+    .map(move => ({ move, score: guessMoveValue(state, move) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ move }) => move);
+
+/**
+ * Pick the best of the given candidate moves (in the order they should be
+ * tried first) by searching ahead as deep as the settings allow.
+ * Returns null when there are no candidates.
+ */
+export const searchMove = (
+  state: GameState,
+  candidates: Position[],
+  settings: SearchSettings,
+  now: () => number = Date.now
+): SearchResult | null => {
+  if (candidates.length === 0) return null;
+
+  const player = getMover(state);
+  const deadline = now() + settings.timeLimitMs;
+  let nodes = 0;
+  let checkBudget = false;
+
+  const play = (position: GameState, move: Position): GameState => {
+    if (checkBudget && (nodes >= settings.maxNodes || now() > deadline)) throw new SearchBudgetExceeded();
+    nodes++;
+    return applyMove(position, move, NO_SPAWNS).nextState;
+  };
+
+  const alphaBeta = (position: GameState, depth: number, alpha: number, beta: number): number => {
+    if (depth === 0 || position.gameOver) {
+      return evaluatePosition(position, player);
+    }
+    const moves = orderMoves(position, getValidMoves(position)).slice(0, settings.width);
+    if (moves.length === 0) {
+      return evaluatePosition(position, player);
+    }
+
+    if (getMover(position) === player) {
+      let best = -Infinity;
+      for (const move of moves) {
+        best = Math.max(best, alphaBeta(play(position, move), depth - 1, alpha, beta));
+        alpha = Math.max(alpha, best);
+        if (beta <= alpha) break;
+      }
+      return best;
+    }
+    let best = Infinity;
+    for (const move of moves) {
+      best = Math.min(best, alphaBeta(play(position, move), depth - 1, alpha, beta));
+      beta = Math.min(beta, best);
+      if (beta <= alpha) break;
+    }
+    return best;
+  };
+
+  let result: SearchResult = { move: candidates[0], value: -Infinity, depth: 0, nodes: 0 };
+  let order = candidates;
+
+  for (let depth = 1; depth <= settings.maxDepth; depth++) {
+    // The first ply always completes, so there is an answer however short the budget
+    checkBudget = depth > 1;
+    try {
+      let bestMove = order[0];
+      let bestValue = -Infinity;
+      for (const move of order) {
+        const value = alphaBeta(play(state, move), depth - 1, bestValue, Infinity);
+        if (value > bestValue) {
+          bestValue = value;
+          bestMove = move;
+        }
+      }
+      result = { move: bestMove, value: bestValue, depth, nodes };
+      // Try the best move first next time, which makes pruning more effective
+      order = [bestMove, ...order.filter(move => move !== bestMove)];
+    } catch (error) {
+      if (!(error instanceof SearchBudgetExceeded)) throw error;
+      break;
+    }
+    // A forced win or loss will not change with more depth
+    if (Math.abs(result.value) > WIN_SCORE / 2) break;
+  }
+
+  return { ...result, nodes };
+};
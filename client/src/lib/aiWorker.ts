@@ -0,0 +1,27 @@
+import type { GameState } from '@shared/engine';
+import { AI_STRATEGY, AIDecision, AISettingsOverrides, getAIDecision } from './aiPlayer';
+
+/*
+ * Web Worker that runs the AI off the main thread, so searching never stalls
+ * the board's animations. Each request carries the position, the seat's
+ * strategy and any setting overrides; the answer echoes the request id so
+ * stale answers can be told apart. A search cannot be interrupted, so
+ * cancelling means terminating the worker (see aiWorkerClient.ts).
+ */
+
+export type AIWorkerRequest = {
+  id: number;
+  state: GameState;
+  strategy: AI_STRATEGY;
+  overrides: AISettingsOverrides;
+};
+
+export type AIWorkerResponse = AIDecision & {
+  id: number;
+};
+
+self.addEventListener('message', (event: MessageEvent<AIWorkerRequest>) => {
+  const { id, state, strategy, overrides } = event.data;
+  const response: AIWorkerResponse = { id, ...getAIDecision(state, strategy, overrides) };
+  self.postMessage(response);
+});
@@ -0,0 +1,92 @@
+import type { GameState } from '@shared/engine';
+import { AI_STRATEGY, AIDecision, AISettingsOverrides, GAME_TIME_LIMIT_MS, getAIDecision } from './aiPlayer';
+import type { AIWorkerRequest, AIWorkerResponse } from './aiWorker';
+
+// Request waiting for the worker's answer
+type PendingRequest = {
+  id: number;
+  state: GameState;
+  strategy: AI_STRATEGY;
+  resolve: (decision: AIDecision | null) => void;
+};
+
+// In the game, a slow device also stops the AI thinking (see GAME_TIME_LIMIT_MS)
+const GAME_SETTINGS: AISettingsOverrides = { timeLimitMs: GAME_TIME_LIMIT_MS };
+
+let worker: Worker | null = null;
+let pending: PendingRequest | null = null;
+let nextRequestId = 1;
+
+const settle = (decision: AIDecision | null) => {
+  const request = pending;
+  pending = null;
+  request?.resolve(decision);
+};
+
+// Think on the main thread instead. An AI that fails here too answers with
+// no move, and the caller decides what to play.
+const decideHere = (state: GameState, strategy: AI_STRATEGY): AIDecision => {
+  try {
+    return getAIDecision(state, strategy, GAME_SETTINGS);
+  } catch (error) {
+    console.error('AI failed:', error);
+    return { move: null, analysis: { strategy, timeMs: 0 } };
+  }
+};
+
+// Drop a broken worker and answer the waiting request without it
+const failWorker = (reason: string) => {
+  console.error('AI worker failed:', reason);
+  worker?.terminate();
+  worker = null;
+  if (pending) settle(decideHere(pending.state, pending.strategy));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<AIWorkerResponse>) => {
+      const { id, ...decision } = event.data;
+      // Answers to cancelled requests are dropped
+      if (pending?.id === id) settle(decision);
+    });
+    worker.addEventListener('error', (event) => failWorker(event.message));
+    worker.addEventListener('messageerror', () => failWorker('unreadable message'));
+  }
+  return worker;
+};
+
+/**
+ * Ask the AI worker for its decision in a position. Only one request runs at
+ * a time: a new one cancels the last. Resolves with null only when cancelled;
+ * if the worker fails, the decision is worked out on the main thread.
+ */
+export const requestAIDecision = (state: GameState, strategy: AI_STRATEGY): Promise<AIDecision | null> => {
+  cancelAIDecision();
+
+  // Without worker support, think on the main thread instead
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(decideHere(state, strategy));
+  }
+
+  return new Promise(resolve => {
+    const request: AIWorkerRequest = { id: nextRequestId++, state, strategy, overrides: GAME_SETTINGS };
+    pending = { id: request.id, state, strategy, resolve };
+    try {
+      getWorker().postMessage(request);
+    } catch (error) {
+      failWorker(error instanceof Error ? error.message : String(error));
+    }
+  });
+};
+
+/**
+ * Stop the AI thinking, when the game is restarted or a move undone. The
+ * worker is busy until its search ends, so it is replaced by a fresh one.
+ */
+export const cancelAIDecision = (): void => {
+  if (!pending) return;
+  worker?.terminate();
+  worker = null;
+  settle(null);
+};
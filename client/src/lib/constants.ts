@@ -1,9 +1,7 @@
-export enum PLAYER {
-  RED = "red",
-  BLUE = "blue",
-  ORANGE = "orange",
-  BLACK = "black"
-}
+import { PLAYER } from "@shared/engine";
+import type { TopologyKind } from "@shared/engine";
+
+export { PLAYER };
 
 // Colors as requested:
 // BLUE: (55, 114, 255) - royal blue
@@ -47,6 +45,20 @@ export const PLAYER_BG_COLORS = {
 };
 
 export const CELL_SIZE = 60;
+
+// Outline of a hex cell; rows of hexes overlap by a quarter of a cell
+export const HEX_CLIP_PATH = "polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)";
+
+// Names shown wherever players pick how cells connect
+export const TOPOLOGY_LABELS: Record<TopologyKind, string> = {
+  square: 'Square',
+  hex: 'Hex',
+  moore: '8-way'
+};
+
+// Shown on the hex and wrap choices while an odd row count rules them out
+export const EVEN_ROWS_HINT = "Wrapping hex boards need an even number of rows";
+
 export const DOT_SIZE = 20;
 export const DOT_MARGIN = 5;
 
@@ -55,6 +67,18 @@ export const DOT_POSITIONS = {
   2: [{ x: -10, y: 0 }, { x: 10, y: 0 }], // Horizontal
   3: [{ x: 0, y: -10 }, { x: -10, y: 10 }, { x: 10, y: 10 }], // Triangle
   4: [{ x: -10, y: -10 }, { x: 10, y: -10 }, { x: -10, y: 10 }, { x: 10, y: 10 }], // Square
+  // Larger counts only stay stable on hex and Moore (eight-neighbour) boards
+  5: [{ x: -12, y: -12 }, { x: 12, y: -12 }, { x: 0, y: 0 }, { x: -12, y: 12 }, { x: 12, y: 12 }], // Quincunx
+  6: [
+    { x: -14, y: -8 }, { x: 0, y: -8 }, { x: 14, y: -8 },
+    { x: -14, y: 8 }, { x: 0, y: 8 }, { x: 14, y: 8 }
+  ], // Two rows of three
+  7: [
+    { x: 0, y: 0 },
+    { x: -14, y: 0 }, { x: 14, y: 0 },
+    { x: -7, y: -12 }, { x: 7, y: -12 },
+    { x: -7, y: 12 }, { x: 7, y: 12 }
+  ], // Hexagon around a centre dot
 };
 
 export const ANIMATION_DURATION = 300; // ms (exactly 0.3 seconds)
@@ -0,0 +1,11 @@
+import { GameRecord, serializeRecord } from "@shared/engine";
+import { downloadTextFile } from "./utils";
+
+// File extension for saved game records
+export const RECORD_FILE_EXTENSION = ".crgame";
+
+// Offer a game record as a file named after its mode and date
+export const downloadGameRecord = (record: GameRecord): void => {
+  const name = record.start.config.mode === 'base' ? 'base-reaction' : 'chain-reaction';
+  downloadTextFile(`${name}-${record.date}${RECORD_FILE_EXTENSION}`, serializeRecord(record), "text/plain");
+};
@@ -0,0 +1,90 @@
+import type { GameMode, GameState } from "@shared/engine";
+import type { MoveTree } from "./moveTree";
+import { getLocalStorage, setLocalStorage } from "./utils";
+
+const AUTOSAVE_KEY = 'autosavedGames';
+const SLOTS_KEY = 'savedGames';
+
+// Bumped whenever the saved game format changes
+export const SAVE_FORMAT_VERSION = 2;
+
+// A game in progress with everything needed to carry on playing it
+export type SavedGame = {
+  name: string; // Slot name, empty for the autosave
+  savedAt: string; // ISO timestamp
+  state: GameState; // Current position, including the game's config
+  moveTree: MoveTree; // Every line played, for undo and redo
+  currentNode: number;
+};
+
+// Routes of the two game modes
+export const GAME_MODE_PATHS: Record<GameMode, string> = {
+  classic: '/chain-reaction',
+  base: '/base-reaction'
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object';
+
+const isSavedGame = (value: unknown): value is SavedGame => {
+  if (!isObject(value) || value.version !== SAVE_FORMAT_VERSION || typeof value.name !== 'string') return false;
+  const { state, moveTree, currentNode } = value;
+  return isObject(state) && !!state.config && Array.isArray(state.grid) && Number.isInteger(state.rng) &&
+    isObject(moveTree) && Array.isArray(moveTree.nodes) &&
+    typeof currentNode === 'number' && !!moveTree.nodes[currentNode];
+};
+
+const toStored = (game: SavedGame) => ({ version: SAVE_FORMAT_VERSION, ...game });
+
+// As kept in local storage: the autosaves by mode, the named saves as a list
+type StoredGame = ReturnType<typeof toStored>;
+type StoredAutosaves = Partial<Record<GameMode, unknown>>;
+
+// Autosaves are checked one by one when read, so a broken one spoils no other
+const readAutosaves = (): StoredAutosaves => {
+  const stored: unknown = getLocalStorage(AUTOSAVE_KEY);
+  return isObject(stored) ? stored : {};
+};
+
+// Saving runs after every turn, so a full storage quota must never break the game
+const write = (key: string, value: StoredAutosaves | StoredGame[]) => {
+  try {
+    setLocalStorage(key, value);
+  } catch (error) {
+    console.log("Could not save game:", error);
+  }
+};
+
+// The latest unfinished game of each mode, plus games saved by name
+export const GameStorage = {
+  getAutosave: (mode: GameMode): SavedGame | undefined => {
+    const stored = readAutosaves()[mode];
+    return isSavedGame(stored) ? stored : undefined;
+  },
+
+  setAutosave: (game: SavedGame): void => {
+    write(AUTOSAVE_KEY, { ...readAutosaves(), [game.state.config.mode]: toStored({ ...game, name: "" }) });
+  },
+
+  clearAutosave: (mode: GameMode): void => {
+    const { [mode]: _cleared, ...rest } = readAutosaves();
+    write(AUTOSAVE_KEY, rest);
+  },
+
+  // Named saves, newest first. Unreadable ones are skipped.
+  getSlots: (): SavedGame[] => {
+    const stored: unknown = getLocalStorage(SLOTS_KEY);
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(isSavedGame).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  },
+
+  // Save a game under a name, replacing any save with the same name
+  saveSlot: (game: SavedGame): void => {
+    const slots = GameStorage.getSlots().filter(slot => slot.name !== game.name);
+    write(SLOTS_KEY, [...slots, game].map(toStored));
+  },
+
+  deleteSlot: (name: string): void => {
+    write(SLOTS_KEY, GameStorage.getSlots().filter(slot => slot.name !== name).map(toStored));
+  }
+};
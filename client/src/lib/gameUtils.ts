@@ -1,30 +1,27 @@
+import { getCriticalMass, getNeighbors, isAdjacentTo as engineIsAdjacentTo } from "@shared/engine";
+import type { BoardLayout, GridCell } from "@shared/engine";
 import { PLAYER, PLAYER_COLORS, DOT_POSITIONS } from "./constants";
-import type { GridCell } from "./stores/useChainReaction";
 
-// Calculate the critical mass of a cell based on its position
+// Calculate the critical mass of a cell from its open neighbours
 export const calculateCriticalMass = (
+  grid: GridCell[][],
   row: number,
   col: number,
-  rows: number,
-  cols: number
+  layout: BoardLayout = {}
 ): number => {
-  // Corner cells (2 neighbors)
-  if (
-    (row === 0 && col === 0) ||
-    (row === 0 && col === cols - 1) ||
-    (row === rows - 1 && col === 0) ||
-    (row === rows - 1 && col === cols - 1)
-  ) {
-    return 2;
-  }
-
-  // Edge cells (3 neighbors)
-  if (row === 0 || row === rows - 1 || col === 0 || col === cols - 1) {
-    return 3;
-  }
+  return getCriticalMass({ rows: grid.length, cols: grid[0]?.length ?? 0, grid, ...layout }, row, col);
+};
 
-  // Center cells (4 neighbors)
-  return 4;
+// Neighbours an explosion reaches by crossing an edge of a wrapping board
+export const getWrappedNeighbors = (
+  grid: GridCell[][],
+  row: number,
+  col: number,
+  layout: BoardLayout
+): { row: number; col: number }[] => {
+  if (!layout.wrap) return [];
+  return getNeighbors({ rows: grid.length, cols: grid[0]?.length ?? 0, grid, ...layout }, row, col)
+    .filter(neighbor => Math.abs(neighbor.row - row) > 1 || Math.abs(neighbor.col - col) > 1);
 };
 
 // Get positions for dots in a cell based on the number of dots
@@ -57,12 +54,8 @@ export const getDotPositions = (
 // Check if a grid cell is about to explode (at critical mass - 1)
 export const isAboutToExplode = (
   cell: GridCell,
-  row: number,
-  col: number,
-  rows: number,
-  cols: number
+  criticalMass: number
 ): boolean => {
-  const criticalMass = calculateCriticalMass(row, col, rows, cols);
   return cell.atoms === criticalMass - 1;
 };
 
@@ -72,9 +65,7 @@ export const randomOffset = (range: number): number => {
 };
 
 // Check if a cell is adjacent (including diagonally) to another cell
-export const isAdjacentTo = (row1: number, col1: number, row2: number, col2: number): boolean => {
-  return Math.abs(row1 - row2) <= 1 && Math.abs(col1 - col2) <= 1;
-};
+export const isAdjacentTo = engineIsAdjacentTo;
 
 // Calculate if a player has won in classic mode
 export const checkClassicWinner = (grid: GridCell[][]): PLAYER | null => {
@@ -0,0 +1,41 @@
+import { BoardMap, GameMode, MAP_FORMAT_VERSION, parseMap, validateMap } from "@shared/engine";
+import { getLocalStorage, setLocalStorage } from "./utils";
+
+const STORAGE_KEY = 'customMaps';
+
+// Custom maps saved from the editor, kept in this browser
+export const MapStorage = {
+  getMaps: (): BoardMap[] => {
+    const stored = getLocalStorage(STORAGE_KEY);
+    if (!Array.isArray(stored)) return [];
+
+    // Skip anything that no longer parses rather than losing every map
+    return stored.flatMap(item => {
+      try {
+        return [parseMap(JSON.stringify(item))];
+      } catch (error) {
+        console.log("Skipping unreadable saved map:", error);
+        return [];
+      }
+    });
+  },
+
+  getMap: (name: string): BoardMap | undefined =>
+    MapStorage.getMaps().find(map => map.name === name),
+
+  // Maps that can be played in the given mode
+  getPlayableMaps: (mode: GameMode): BoardMap[] =>
+    MapStorage.getMaps().filter(map => validateMap(map, mode).length === 0),
+
+  // Save a map, replacing any map with the same name
+  saveMap: (map: BoardMap): void => {
+    const maps = MapStorage.getMaps().filter(existing => existing.name !== map.name);
+    maps.push(map);
+    setLocalStorage(STORAGE_KEY, maps.map(m => ({ version: MAP_FORMAT_VERSION, ...m })));
+  },
+
+  deleteMap: (name: string): void => {
+    const maps = MapStorage.getMaps().filter(map => map.name !== name);
+    setLocalStorage(STORAGE_KEY, maps.map(m => ({ version: MAP_FORMAT_VERSION, ...m })));
+  }
+};
@@ -0,0 +1,140 @@
+import { applyMove, formatCell } from "@shared/engine";
+import type { GameState, Move, PLAYER } from "@shared/engine";
+
+// A full position is kept every this many turns; anything in between is
+// rebuilt by replaying moves from the nearest one
+export const KEYFRAME_INTERVAL = 20;
+
+// One turn in the game. A heart power-up takes two clicks (the heart, then
+// its target), so a turn holds every click the player made.
+export type MoveNode = {
+  id: number;
+  parent: number | null; // null for the starting position
+  ply: number; // Turns played to reach this node
+  moves: Move[];
+  player: PLAYER | null; // Who made the moves, null at the root
+  keyframe: GameState | null; // Position after the moves, on every KEYFRAME_INTERVAL-th turn
+  children: number[]; // First child is the line played first, the rest are variations
+  activeChild: number | null; // Where redo goes: the child visited last
+};
+
+// Every line played in a game, including the ones undone and replaced.
+// Node ids are indexes into nodes.
+export type MoveTree = {
+  nodes: MoveNode[];
+};
+
+export const ROOT_NODE = 0;
+
+export const createMoveTree = (state: GameState): MoveTree => ({
+  nodes: [{
+    id: ROOT_NODE,
+    parent: null,
+    ply: 0,
+    moves: [],
+    player: null,
+    keyframe: state,
+    children: [],
+    activeChild: null
+  }]
+});
+
+const sameMoves = (a: Move[], b: Move[]) =>
+  a.length === b.length && a.every((move, i) => move.row === b[i].row && move.col === b[i].col);
+
+// Copy the nodes that change so stores see a new tree
+const updateNodes = (tree: MoveTree, updates: MoveNode[]): MoveTree => {
+  const nodes = [...tree.nodes];
+  updates.forEach(node => {
+    nodes[node.id] = node;
+  });
+  return { nodes };
+};
+
+/**
+ * Record a turn played from the given node, with the position it led to.
+ * Playing a move that was already played from there follows the existing
+ * line instead of adding a copy.
+ */
+export const addMove = (
+  tree: MoveTree,
+  parentId: number,
+  moves: Move[],
+  player: PLAYER,
+  state: GameState
+): { tree: MoveTree; id: number } => {
+  const parent = tree.nodes[parentId];
+  const existing = parent.children.find(childId => sameMoves(tree.nodes[childId].moves, moves));
+  if (existing !== undefined) {
+    return { tree: updateNodes(tree, [{ ...parent, activeChild: existing }]), id: existing };
+  }
+
+  const id = tree.nodes.length;
+  const ply = parent.ply + 1;
+  const node: MoveNode = {
+    id,
+    parent: parentId,
+    ply,
+    moves,
+    player,
+    keyframe: ply % KEYFRAME_INTERVAL === 0 ? state : null,
+    children: [],
+    activeChild: null
+  };
+  return {
+    tree: updateNodes(tree, [node, { ...parent, children: [...parent.children, id], activeChild: id }]),
+    id
+  };
+};
+
+// Add a click to an unfinished turn (the target of a heart power-up)
+export const extendMove = (tree: MoveTree, id: number, move: Move, state: GameState): MoveTree => {
+  const node = tree.nodes[id];
+  return updateNodes(tree, [{
+    ...node,
+    moves: [...node.moves, move],
+    keyframe: node.keyframe ? state : null
+  }]);
+};
+
+// Node ids from the starting position to the given node
+export const getPath = (tree: MoveTree, id: number): number[] => {
+  const path: number[] = [];
+  for (let node: number | null = id; node !== null; node = tree.nodes[node].parent) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// Clicks of every turn from the starting position to the given node
+export const getTurns = (tree: MoveTree, id: number): Move[][] =>
+  getPath(tree, id).slice(1).map(node => tree.nodes[node].moves);
+
+// Rebuild the position at a node from the nearest keyframe before it. Every
+// position carries its random generator, so spawns come out the same again.
+export const getPosition = (tree: MoveTree, id: number): GameState => {
+  const path = getPath(tree, id);
+  let start = path.length - 1;
+  while (!tree.nodes[path[start]].keyframe) start--;
+
+  let state = tree.nodes[path[start]].keyframe!;
+  for (let i = start + 1; i < path.length; i++) {
+    state = tree.nodes[path[i]].moves.reduce(
+      (position, move) => applyMove(position, move).nextState,
+      state
+    );
+  }
+  return state;
+};
+
+// Jump to a node, making the line leading to it the one redo follows
+export const selectNode = (tree: MoveTree, id: number): MoveTree => {
+  const path = getPath(tree, id);
+  return updateNodes(tree, path.slice(1).map(childId => {
+    const parent = tree.nodes[tree.nodes[childId].parent!];
+    return { ...parent, activeChild: childId };
+  }));
+};
+
+// Clicks of a turn in cell notation, e.g. "c4" or "e5→a9" for a heart and its target
+export const formatMoves = (moves: Move[]): string => moves.map(formatCell).join('→');
@@ -0,0 +1,70 @@
+import { getAppBasePath } from "./utils";
+
+/*
+ * Share links carry a position or a whole game record in the URL hash, so
+ * they open on the static build without a server:
+ *
+ *   https://tehisaru.github.io/BR1/#v1/g/<payload>
+ *
+ * "p" is a position in notation, "g" a game record. Version 1 payloads are
+ * the text deflated and written as base64url. A new version gets its own
+ * case in readShareLink, so links made by older builds keep opening.
+ */
+export const SHARE_LINK_VERSION = 1;
+
+export type SharedGame = {
+  kind: 'position' | 'game';
+  text: string;
+};
+
+const KIND_CODES = { position: 'p', game: 'g' } as const;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const deflate = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const inflate = (bytes: Uint8Array): Promise<string> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+
+// Full link that opens the app on the shared position or game
+export const createShareLink = async ({ kind, text }: SharedGame): Promise<string> => {
+  const payload = toBase64Url(await deflate(text));
+  return `${window.location.origin}${getAppBasePath()}#v${SHARE_LINK_VERSION}/${KIND_CODES[kind]}/${payload}`;
+};
+
+/**
+ * Read the game shared in a URL hash. Returns null when the hash is not a
+ * share link, and throws when it is one that cannot be read.
+ */
+export const readShareLink = async (hash: string): Promise<SharedGame | null> => {
+  const match = /^#v(\d+)\/([a-z])\/([A-Za-z0-9_-]+)$/.exec(hash);
+  if (!match) return null;
+
+  const kind = (Object.keys(KIND_CODES) as SharedGame['kind'][]).find(k => KIND_CODES[k] === match[2]);
+  if (!kind) throw new Error(`Unknown shared item "${match[2]}"`);
+
+  switch (Number(match[1])) {
+    case 1:
+      try {
+        return { kind, text: await inflate(fromBase64Url(match[3])) };
+      } catch {
+        throw new Error("The link is damaged or incomplete");
+      }
+    default:
+      throw new Error("This link was made by a newer version of the game");
+  }
+};
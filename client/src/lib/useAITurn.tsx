@@ -1,14 +1,16 @@
 import { useEffect } from 'react';
 import { PLAYER } from './constants';
-import { useChainReaction } from './stores/useChainReaction';
-import { PlayerSettingsManager, PLAYER_CONTROL } from '../components/Menu/MainMenu';
-import { getAIMove, AI_STRATEGY } from './aiPlayer';
+import { useChainReaction, selectGameState } from './stores/useChainReaction';
+import { getController, getValidMoves, isAIControlled } from '@shared/engine';
+import { parseAIStrategy } from './aiPlayer';
+import { cancelAIDecision, requestAIDecision } from './aiWorkerClient';
 
 /**
  * A React hook to process AI turns
  */
 export const useAITurn = () => {
   const { 
+    config,
     currentPlayer, 
     gameOver,
     grid,
@@ -16,9 +18,12 @@ export const useAITurn = () => {
     hqs,
     powerUps,
     placeDot,
+    cancelHeart,
     animating,
     heartSelectionMode,
-    pendingHeartPlayer
+    pendingHeartPlayer,
+    setAIThinking,
+    setAIError
   } = useChainReaction();
 
   useEffect(() => {
@@ -28,52 +33,64 @@ export const useAITurn = () => {
     }
 
     // Check if current player is AI-controlled
-    const isCurrentPlayerAI = PlayerSettingsManager.isAIPlayer(currentPlayer);
+    const isCurrentPlayerAI = isAIControlled(config, currentPlayer);
     
     if (isCurrentPlayerAI) {
-      // Handle heart power-up enemy selection for AI
-      if (heartSelectionMode && pendingHeartPlayer === currentPlayer) {
-        console.log(`🤖 AI ${currentPlayer} in heart selection mode - choosing enemy target`);
-        
-        const timeoutId = setTimeout(() => {
-          // Find all enemy HQs that can be targeted
-          const enemyHQs = hqs?.filter(hq => hq.player !== currentPlayer) || [];
-          
-          if (enemyHQs.length > 0) {
-            // AI picks a random enemy (or could use strategy later)
-            const targetEnemy = enemyHQs[Math.floor(Math.random() * enemyHQs.length)];
-            console.log(`🤖 AI ${currentPlayer} selecting enemy ${targetEnemy.player} for heart damage`);
-            placeDot(targetEnemy.row, targetEnemy.col);
-          } else {
-            console.warn(`🤖 AI ${currentPlayer} found no enemy targets, canceling heart selection`);
-            // Click an empty cell to cancel selection
-            placeDot(0, 0);
-          }
-        }, 750); // Same delay as normal moves
-        
-        return () => clearTimeout(timeoutId);
+      // Get the AI's difficulty tier for this seat
+      const strategy = parseAIStrategy(getController(config, currentPlayer)?.aiStrategy);
+
+      // During a heart pick only its owner clicks, choosing an enemy HQ
+      const isHeartTarget = heartSelectionMode && pendingHeartPlayer === currentPlayer;
+      if (heartSelectionMode && !isHeartTarget) {
+        return;
       }
-      
-      // Normal AI turn logic
-      if (!heartSelectionMode) {
-        console.log(`AI Turn for ${currentPlayer} player`);
-        
-        // Add a small delay to make the AI move feel more natural
-        const timeoutId = setTimeout(() => {
-          // Get the AI's strategy (default to hard for aggressive play)
-          const strategy = PlayerSettingsManager.getAIStrategy(currentPlayer);
-          const aiMove = getAIMove(grid, currentPlayer, isBaseMode, hqs, strategy, powerUps);
-          
-          if (aiMove) {
-            console.log(`AI ${currentPlayer} (${strategy}) placed dot at (${aiMove.row}, ${aiMove.col}) with score ${aiMove.score.toFixed(1)}`);
-            placeDot(aiMove.row, aiMove.col);
+      console.log(isHeartTarget
+        ? `🤖 AI ${currentPlayer} in heart selection mode - choosing enemy target`
+        : `AI Turn for ${currentPlayer} player`);
+
+      let active = true; // Cleared once this turn is cancelled or replaced
+      let thinking = false;
+
+      // Add a small delay to make the AI move feel more natural, then let the
+      // worker think so the board keeps animating
+      const timeoutId = setTimeout(() => {
+        thinking = true;
+        setAIThinking(true);
+        const state = selectGameState(useChainReaction.getState());
+        requestAIDecision(state, strategy).then(decision => {
+          thinking = false;
+          // A cancelled request means the game has moved on
+          if (!active || !decision) return;
+          setAIThinking(false);
+
+          if (decision.move) {
+            const { move, analysis } = decision;
+            console.log(`AI ${currentPlayer} (${strategy}) clicked (${move.row}, ${move.col}) after ${analysis.timeMs}ms${analysis.score !== undefined ? ` with score ${analysis.score.toFixed(1)}` : ''}`);
+            placeDot(move.row, move.col);
           } else {
-            console.warn(`AI ${currentPlayer} couldn't find a valid move`);
+            // No decision: play any legal move rather than stall the game
+            const [fallback] = getValidMoves(state);
+            if (fallback) {
+              console.warn(`AI ${currentPlayer} couldn't decide, playing (${fallback.row}, ${fallback.col})`);
+              placeDot(fallback.row, fallback.col);
+            } else if (isHeartTarget) {
+              console.warn(`🤖 AI ${currentPlayer} found no enemy targets, canceling heart selection`);
+              cancelHeart();
+            } else {
+              setAIError(`AI ${currentPlayer} cannot find a move`);
+            }
           }
-        }, 750); // Delay AI moves by 750ms
-        
-        return () => clearTimeout(timeoutId);
-      }
+        });
+      }, 750); // Delay AI moves by 750ms
+      
+      return () => {
+        active = false;
+        clearTimeout(timeoutId);
+        if (thinking) {
+          cancelAIDecision();
+          setAIThinking(false);
+        }
+      };
     }
-  }, [currentPlayer, gameOver, grid, isBaseMode, hqs, powerUps, placeDot, animating, heartSelectionMode, pendingHeartPlayer]);
+  }, [config, currentPlayer, gameOver, grid, isBaseMode, hqs, powerUps, placeDot, cancelHeart, animating, heartSelectionMode, pendingHeartPlayer, setAIThinking, setAIError]);
 };
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { EventBoard, GameEvent, PLAYER, applyEvent, cloneBoard, splitIntoBeats } from "@shared/engine";
+import type { MovePlayback } from "./stores/useChainReaction";
+
+// Delay before the first explosion and between later explosions (ms)
+const FIRST_EXPLOSION_DELAY = 300;
+const EXPLOSION_STEP_DELAY = 150;
+
+// Reactions with more explosions than this offer a "resolve the rest" button
+const LONG_REACTION_EXPLOSIONS = 12;
+
+export type HQEffect = {
+  row: number;
+  col: number;
+  player: PLAYER;
+  type: 'damage' | 'heal' | 'destroyed';
+  timestamp: number; // Used as a key to restart the animation
+};
+
+type EventPlayback = {
+  board: EventBoard | null; // Board to show while playing, null once caught up with the store
+  explodingCells: { row: number; col: number }[]; // Cells going off in the current beat
+  hqEffect: HQEffect | null;
+  isPlaying: boolean;
+  isLong: boolean; // Worth offering to fast-forward
+  skip: () => void;
+};
+
+// Latest HQ animation caused by a group of events, if any
+const findHQEffect = (events: GameEvent[]): HQEffect | null => {
+  let effect: HQEffect | null = null;
+  events.forEach(event => {
+    if (event.type === 'hqDamaged' || event.type === 'hqHealed' || event.type === 'hqDestroyed') {
+      const type = event.type === 'hqDamaged' ? 'damage' : event.type === 'hqHealed' ? 'heal' : 'destroyed';
+      effect = { row: event.row, col: event.col, player: event.player, type, timestamp: Date.now() };
+    }
+  });
+  return effect;
+};
+
+/**
+ * Step through the events of the last move, one explosion wave per beat, starting
+ * from the board as it was before the move. Calls onComplete when the last
+ * beat has been shown or the playback is skipped. A speed above 1 shortens
+ * the delays between beats.
+ */
+export const useEventPlayback = (
+  playback: MovePlayback | null,
+  onComplete: () => void,
+  speed = 1
+): EventPlayback => {
+  const [board, setBoard] = useState<EventBoard | null>(null);
+  const [explodingCells, setExplodingCells] = useState<{ row: number; col: number }[]>([]);
+  const [hqEffect, setHQEffect] = useState<HQEffect | null>(null);
+  const [isLong, setIsLong] = useState(false);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  // Read when a move starts playing, so changing speed never restarts one
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  const clearTimers = () => {
+    timers.current.forEach(timer => clearTimeout(timer));
+    timers.current = [];
+  };
+
+  const finish = useCallback(() => {
+    clearTimers();
+    setBoard(null);
+    setExplodingCells([]);
+    onCompleteRef.current();
+  }, []);
+
+  useEffect(() => {
+    clearTimers();
+    setBoard(null);
+    setExplodingCells([]);
+
+    if (!playback) {
+      setHQEffect(null);
+      return;
+    }
+
+    const beats = splitIntoBeats(playback.events);
+    setIsLong(beats.length - 1 > LONG_REACTION_EXPLOSIONS);
+
+    // Nothing exploded: the store already shows the final position
+    if (beats.length <= 1) {
+      const effect = findHQEffect(playback.events);
+      if (effect) setHQEffect(effect);
+      onCompleteRef.current();
+      return;
+    }
+
+    const frame = cloneBoard(playback.before);
+    const showBeat = (index: number) => {
+      const beat = beats[index];
+      beat.forEach(event => applyEvent(frame, event));
+      setBoard(cloneBoard(frame));
+
+      setExplodingCells(beat.flatMap(event =>
+        event.type === 'cellExploded' ? [{ row: event.row, col: event.col }] : []
+      ));
+
+      const effect = findHQEffect(beat);
+      if (effect) setHQEffect(effect);
+    };
+
+    showBeat(0);
+    const firstDelay = FIRST_EXPLOSION_DELAY / speedRef.current;
+    const stepDelay = EXPLOSION_STEP_DELAY / speedRef.current;
+    for (let i = 1; i < beats.length; i++) {
+      const delay = firstDelay + (i - 1) * stepDelay;
+      timers.current.push(setTimeout(() => showBeat(i), delay));
+    }
+    const end = firstDelay + (beats.length - 1) * stepDelay;
+    timers.current.push(setTimeout(finish, end));
+
+    return clearTimers;
+  }, [playback, finish]);
+
+  return {
+    board,
+    explodingCells,
+    hqEffect,
+    isPlaying: board !== null,
+    isLong,
+    skip: finish
+  };
+};
@@ -11,3 +11,25 @@ const setLocalStorage = (key: string, value: any): void =>
   window.localStorage.setItem(key, JSON.stringify(value));
 
 export { getLocalStorage, setLocalStorage };
+
+// Offer a text file to the user as a download
+const downloadTextFile = (filename: string, contents: string, type = "application/json"): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Read a file picked by the user as text
+const readTextFile = (file: File): Promise<string> => file.text();
+
+export { downloadTextFile, readTextFile };
+
+// Path the app is served from: the Vite base on the static GitHub Pages build,
+// or the root when the dev server serves every path
+const getAppBasePath = (): string =>
+  window.location.pathname.startsWith(import.meta.env.BASE_URL) ? import.meta.env.BASE_URL : "/";
+
+export { getAppBasePath };
@@ -1,17 +1,21 @@
-import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import GameBoard from "../components/Game/GameBoard";
 import GameControls from "../components/Game/GameControls";
 import GameOverOverlay from "../components/Game/GameOverOverlay";
+import MoveTreePanel from "../components/Game/MoveTreePanel";
+import PositionControls from "../components/Game/PositionControls";
 import { useChainReaction } from "../lib/stores/useChainReaction";
 import { PLAYER_BG_COLORS } from "../lib/constants";
 import { useAITurn } from "../lib/useAITurn";
+import { downloadGameRecord } from "../lib/gameRecord";
 import { resetAIPersonalities } from "../lib/aiPlayer";
-import { PlayerSettingsManager } from "../components/Menu/MainMenu";
+import { isAIControlled } from "@shared/engine";
+import type { SharedGame } from "../lib/shareLink";
 
 const BaseReactionMode: React.FC = () => {
   const navigate = useNavigate();
-  const [isAnimating, setIsAnimating] = useState(false);
+  const location = useLocation();
   
   // Initialize AI for automatic turns
   useAITurn();
@@ -20,23 +24,37 @@ const BaseReactionMode: React.FC = () => {
     grid,
     rows,
     cols,
+    config,
     currentPlayer,
     gameOver,
     winner,
-    history,
+    moveTree,
+    currentNode,
     hqs,
     powerUps,
+    lastMove,
+    animating,
+    setAnimating,
     placeDot,
     undo,
+    redo,
+    goToNode,
     restart,
+    getRecord,
     isValidMove,
-    initBaseMode
+    initBaseMode,
+    aiThinking,
+    aiError
   } = useChainReaction();
   
   // Initialize base mode on component mount
   useEffect(() => {
     resetAIPersonalities(); // Reset AI personalities for each new game
-    initBaseMode();
+    // A share link hands its game over in the route state, once: afterwards
+    // the page picks up the autosave like any other game
+    const shared = (location.state as { shared?: SharedGame } | null)?.shared;
+    initBaseMode(shared);
+    if (shared) navigate(location.pathname, { replace: true, state: null });
     
     // Set up keyboard shortcut for restarting with R
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -55,7 +73,7 @@ const BaseReactionMode: React.FC = () => {
   // Handle cell click
   const handleCellClick = (row: number, col: number) => {
     // Check if current player is AI-controlled
-    const isCurrentPlayerAI = PlayerSettingsManager.isAIPlayer(currentPlayer);
+    const isCurrentPlayerAI = isAIControlled(config, currentPlayer);
     
     // Check if it's an HQ cell
     const isHQCell = hqs.some(hq => hq.row === row && hq.col === col);
@@ -72,14 +90,6 @@ const BaseReactionMode: React.FC = () => {
     if (!gameOver && !isCurrentPlayerAI && 
         ((isValidMove(row, col) && !isHQCell) || heartSelectionMode)) {
       placeDot(row, col);
-      
-      // Add fallback timeout to ensure animation state resets
-      // Using a shorter timeout for better responsiveness
-      setTimeout(() => {
-        // Always reset animation state
-        console.log("Animation timeout in BaseReactionMode - forcing reset");
-        setIsAnimating(false);
-      }, 200); // Very short timeout for better responsiveness
     }
   };
 
@@ -93,8 +103,12 @@ const BaseReactionMode: React.FC = () => {
       <GameControls
         currentPlayer={currentPlayer}
         onUndo={undo}
+        onRedo={redo}
         onRestart={restart}
-        canUndo={history.length > 0}
+        canUndo={moveTree.nodes[currentNode].parent !== null}
+        canRedo={moveTree.nodes[currentNode].activeChild !== null}
+        aiThinking={aiThinking}
+        aiError={aiError}
         isBaseMode={true}
       />
       
@@ -107,17 +121,24 @@ const BaseReactionMode: React.FC = () => {
         isValidMove={isValidMove}
         powerUps={powerUps}
         hqs={hqs}
-        isAnimating={isAnimating}
-        setIsAnimating={setIsAnimating}
+        playback={lastMove}
+        onPlaybackComplete={() => setAnimating(false)}
+        topology={config.topology}
+        wrap={config.wrap}
       />
+
+      <PositionControls mode="base" />
+
+      <MoveTreePanel tree={moveTree} currentNode={currentNode} onSelect={goToNode} />
       
       {/* Power-up explainer removed and moved to Tutorial */}
       
-      {gameOver && winner && (
+      {gameOver && winner && !animating && (
         <GameOverOverlay
           winner={winner}
           onRestart={restart}
           onBackToMenu={() => navigate("/")}
+          onDownloadRecord={() => downloadGameRecord(getRecord())}
         />
       )}
     </div>
@@ -1,17 +1,21 @@
-import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import GameBoard from "../components/Game/GameBoard";
 import GameControls from "../components/Game/GameControls";
 import GameOverOverlay from "../components/Game/GameOverOverlay";
+import MoveTreePanel from "../components/Game/MoveTreePanel";
+import PositionControls from "../components/Game/PositionControls";
 import { useChainReaction } from "../lib/stores/useChainReaction";
 import { PLAYER_BG_COLORS } from "../lib/constants";
 import { useAITurn } from "../lib/useAITurn";
+import { downloadGameRecord } from "../lib/gameRecord";
 import { resetAIPersonalities } from "../lib/aiPlayer";
-import { PlayerSettingsManager } from "../components/Menu/MainMenu";
+import { isAIControlled } from "@shared/engine";
+import type { SharedGame } from "../lib/shareLink";
 
 const ClassicMode: React.FC = () => {
   const navigate = useNavigate();
-  const [isAnimating, setIsAnimating] = useState(false);
+  const location = useLocation();
   
   // Initialize AI for automatic turns
   useAITurn();
@@ -20,21 +24,35 @@ const ClassicMode: React.FC = () => {
     grid,
     rows,
     cols,
+    config,
     currentPlayer,
     gameOver,
     winner,
-    history,
+    moveTree,
+    currentNode,
+    lastMove,
+    animating,
+    setAnimating,
     placeDot,
     undo,
+    redo,
+    goToNode,
     restart,
+    getRecord,
     isValidMove,
-    initClassicMode
+    initClassicMode,
+    aiThinking,
+    aiError
   } = useChainReaction();
   
   // Initialize classic mode on component mount
   useEffect(() => {
     resetAIPersonalities(); // Reset AI personalities for each new game
-    initClassicMode();
+    // A share link hands its game over in the route state, once: afterwards
+    // the page picks up the autosave like any other game
+    const shared = (location.state as { shared?: SharedGame } | null)?.shared;
+    initClassicMode(shared);
+    if (shared) navigate(location.pathname, { replace: true, state: null });
     
     // Set up keyboard shortcut for restarting with R
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -53,7 +71,7 @@ const ClassicMode: React.FC = () => {
   // Handle cell click
   const handleCellClick = (row: number, col: number) => {
     // Check if current player is AI-controlled
-    const isCurrentPlayerAI = PlayerSettingsManager.isAIPlayer(currentPlayer);
+    const isCurrentPlayerAI = isAIControlled(config, currentPlayer);
     
     // Only allow clicks if:
     // 1. Game is not over
@@ -61,14 +79,6 @@ const ClassicMode: React.FC = () => {
     // 3. Current player is NOT AI-controlled (prevent human playing during AI turn)
     if (!gameOver && isValidMove(row, col) && !isCurrentPlayerAI) {
       placeDot(row, col);
-      
-      // Add fallback timeout to ensure animation state resets
-      // Using a shorter timeout for better responsiveness
-      setTimeout(() => {
-        // Always reset animation state
-        console.log("Animation timeout in ClassicMode - forcing reset");
-        setIsAnimating(false);
-      }, 200); // Very short timeout for better responsiveness
     }
   };
 
@@ -82,8 +92,12 @@ const ClassicMode: React.FC = () => {
       <GameControls
         currentPlayer={currentPlayer}
         onUndo={undo}
+        onRedo={redo}
         onRestart={restart}
-        canUndo={history.length > 0}
+        canUndo={moveTree.nodes[currentNode].parent !== null}
+        canRedo={moveTree.nodes[currentNode].activeChild !== null}
+        aiThinking={aiThinking}
+        aiError={aiError}
         isBaseMode={false}
       />
       
@@ -94,15 +108,22 @@ const ClassicMode: React.FC = () => {
         currentPlayer={currentPlayer}
         onCellClick={handleCellClick}
         isValidMove={isValidMove}
-        isAnimating={isAnimating}
-        setIsAnimating={setIsAnimating}
+        playback={lastMove}
+        onPlaybackComplete={() => setAnimating(false)}
+        topology={config.topology}
+        wrap={config.wrap}
       />
+
+      <PositionControls mode="classic" />
+
+      <MoveTreePanel tree={moveTree} currentNode={currentNode} onSelect={goToNode} />
       
-      {gameOver && winner && (
+      {gameOver && winner && !animating && (
         <GameOverOverlay
           winner={winner}
           onRestart={restart}
           onBackToMenu={() => navigate("/")}
+          onDownloadRecord={() => downloadGameRecord(getRecord())}
         />
       )}
     </div>
@@ -1,8 +1,43 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import MainMenu from "../components/Menu/MainMenu";
+import { parsePosition, parseRecord } from "@shared/engine";
+import { GAME_MODE_PATHS } from "../lib/gameStorage";
+import { readShareLink } from "../lib/shareLink";
 
 const Home: React.FC = () => {
-  return <MainMenu />;
+  const navigate = useNavigate();
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  // A share link opens the shared position or game in its mode's page, which
+  // loads it from the route state. Reading it here first finds the mode and
+  // reports a broken link on the menu.
+  useEffect(() => {
+    readShareLink(window.location.hash)
+      .then(shared => {
+        if (!shared) return;
+        const { mode } = shared.kind === 'position'
+          ? parsePosition(shared.text).config
+          : parseRecord(shared.text).start.config;
+        // Replace the link so going back leads to the menu, not the link again
+        navigate(GAME_MODE_PATHS[mode], { replace: true, state: { shared } });
+      })
+      .catch(error => setShareError(`Could not open the link: ${error instanceof Error ? error.message : error}`));
+  }, [navigate]);
+
+  return (
+    <>
+      {shareError && (
+        <div
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-xl bg-black border-2 border-white text-white text-sm"
+          style={{ fontFamily: 'Menlo, monospace' }}
+        >
+          {shareError}
+        </div>
+      )}
+      <MainMenu />
+    </>
+  );
 };
 
 export default Home;
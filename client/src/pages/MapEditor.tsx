@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  BoardMap,
+  GameMode,
+  GridCell,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  createBlankMap,
+  getCriticalMass,
+  needsEvenRows,
+  parseMap,
+  resizeMap,
+  serializeMap,
+  validateMap
+} from "@shared/engine";
+import GameBoard from "../components/Game/GameBoard";
+import { playerAssignments } from "../components/Menu/MainMenu";
+import { EVEN_ROWS_HINT, PLAYER, PLAYER_COLORS, TOPOLOGY_LABELS } from "../lib/constants";
+import { MapStorage } from "../lib/mapStorage";
+import { downloadTextFile, readTextFile } from "../lib/utils";
+import { useChainReaction } from "../lib/stores/useChainReaction";
+
+type EditorTool = 'wall' | 'atom' | 'hq' | 'spawn' | 'erase';
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'wall', label: 'Wall' },
+  { tool: 'atom', label: 'Atom' },
+  { tool: 'hq', label: 'HQ' },
+  { tool: 'spawn', label: 'Power-up' },
+  { tool: 'erase', label: 'Erase' }
+];
+
+const buttonClass = "px-3 py-2 rounded-xl border-2 border-white text-sm transition-all duration-100";
+const buttonState = (selected: boolean) =>
+  selected ? "bg-white text-black hover:bg-gray-200" : "bg-black text-white hover:bg-gray-800";
+
+const samePosition = (row: number, col: number) =>
+  (position: { row: number; col: number }) => position.row === row && position.col === col;
+
+const MapEditor: React.FC = () => {
+  const navigate = useNavigate();
+  const hqHealth = useChainReaction(state => state.config.hqHealth);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [map, setMap] = useState<BoardMap>(() => createBlankMap("My map", 9, 9, playerAssignments[2]));
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [player, setPlayer] = useState<PLAYER>(PLAYER.RED);
+  const [mode, setMode] = useState<GameMode>('base');
+  const [savedMaps, setSavedMaps] = useState<BoardMap[]>(() => MapStorage.getMaps());
+  const [message, setMessage] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateMap(map, mode), [map, mode]);
+
+  // HQ cells are drawn the way a game shows them: one atom of the owner's colour
+  const displayGrid = useMemo(() => map.grid.map((cells, row) => cells.map((cell, col): GridCell => {
+    const hq = map.hqs.find(samePosition(row, col));
+    return hq && mode === 'base' ? { atoms: 1, player: hq.player } : cell;
+  })), [map, mode]);
+
+  const hqs = mode === 'base' ? map.hqs.map(hq => ({ ...hq, health: hqHealth })) : [];
+
+  // Spawn points are shown as power-ups
+  const spawnPoints = map.powerUpSpawns.map(({ row, col }) => ({ row, col, type: 'diamond' as const }));
+
+  // Apply the selected tool to a cell
+  const handleCellClick = (row: number, col: number) => {
+    const grid = map.grid.map(cells => cells.map(cell => ({ ...cell })));
+    const cell = grid[row][col];
+    const isHQ = map.hqs.some(samePosition(row, col));
+    const isSpawn = map.powerUpSpawns.some(samePosition(row, col));
+    const withoutCell = <T extends { row: number; col: number }>(items: T[]) =>
+      items.filter(item => !samePosition(row, col)(item));
+
+    switch (tool) {
+      case 'wall':
+        grid[row][col] = cell.blocked ? { atoms: 0, player: null } : { atoms: 0, player: null, blocked: true };
+        setMap({ ...map, grid, hqs: withoutCell(map.hqs), powerUpSpawns: withoutCell(map.powerUpSpawns) });
+        break;
+      case 'atom': {
+        if (cell.blocked || isHQ) return;
+        // Keep adding atoms up to one short of exploding, then start over
+        const atoms = cell.player === player ? cell.atoms + 1 : 1;
+        const criticalMass = getCriticalMass(map, row, col);
+        grid[row][col] = atoms < criticalMass ? { atoms, player } : { atoms: 0, player: null };
+        setMap({ ...map, grid, powerUpSpawns: withoutCell(map.powerUpSpawns) });
+        break;
+      }
+      case 'hq':
+        grid[row][col] = { atoms: 0, player: null };
+        setMap({
+          ...map,
+          grid,
+          hqs: [...withoutCell(map.hqs).filter(hq => hq.player !== player), { row, col, player }],
+          powerUpSpawns: withoutCell(map.powerUpSpawns)
+        });
+        break;
+      case 'spawn':
+        if (cell.blocked || isHQ) return;
+        grid[row][col] = { atoms: 0, player: null };
+        setMap({
+          ...map,
+          grid,
+          powerUpSpawns: isSpawn ? withoutCell(map.powerUpSpawns) : [...map.powerUpSpawns, { row, col }]
+        });
+        break;
+      case 'erase':
+        grid[row][col] = { atoms: 0, player: null };
+        setMap({ ...map, grid, hqs: withoutCell(map.hqs), powerUpSpawns: withoutCell(map.powerUpSpawns) });
+        break;
+    }
+  };
+
+  // Grow or shrink one side of the map
+  const changeSize = (dimension: 'rows' | 'cols', delta: number) => {
+    // Wrapping hex boards keep an even number of rows
+    const step = dimension === 'rows' && needsEvenRows(map.topology, map.wrap) ? 2 : 1;
+    const size = Math.min(MAX_BOARD_SIZE, Math.max(MIN_BOARD_SIZE, map[dimension] + delta * step));
+    setMap(dimension === 'rows' ? resizeMap(map, size, map.cols) : resizeMap(map, map.rows, size));
+  };
+
+  // Change the number of players, dropping anything owned by removed players
+  const changePlayerCount = (count: 2 | 3 | 4) => {
+    const players = playerAssignments[count];
+    const grid = map.grid.map(cells => cells.map(cell =>
+      cell.player && !players.includes(cell.player) ? { atoms: 0, player: null } : cell
+    ));
+    setMap({ ...map, players, grid, hqs: map.hqs.filter(hq => players.includes(hq.player)) });
+    if (!players.includes(player)) setPlayer(players[0]);
+  };
+
+  const saveMap = () => {
+    if (!map.name.trim()) {
+      setMessage("Give the map a name first");
+      return;
+    }
+    MapStorage.saveMap({ ...map, name: map.name.trim() });
+    setSavedMaps(MapStorage.getMaps());
+    setMessage(`Saved "${map.name.trim()}"`);
+  };
+
+  const deleteMap = (name: string) => {
+    MapStorage.deleteMap(name);
+    setSavedMaps(MapStorage.getMaps());
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setMap(parseMap(await readTextFile(file)));
+      setMessage(`Loaded ${file.name}`);
+    } catch (error) {
+      setMessage(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-2 md:p-4 bg-black text-white" style={{ fontFamily: 'Menlo, monospace' }}>
+      <h1 className="text-3xl font-bold mb-4 pt-4">Map Editor</h1>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-3">
+        {TOOLS.map(({ tool: t, label }) => (
+          <button key={t} onClick={() => setTool(t)} className={`${buttonClass} ${buttonState(tool === t)}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-2 mb-3">
+        {map.players.map(p => (
+          <button
+            key={p}
+            onClick={() => setPlayer(p)}
+            className={`w-10 h-10 rounded-full ${player === p ? 'ring-4 ring-white' : ''}`}
+            style={{ backgroundColor: PLAYER_COLORS[p], border: p === PLAYER.BLACK ? '2px solid white' : 'none' }}
+            aria-label={p}
+          />
+        ))}
+        {([2, 3, 4] as const).map(count => (
+          <button
+            key={count}
+            onClick={() => changePlayerCount(count)}
+            className={`${buttonClass} ${buttonState(map.players.length === count)}`}
+          >
+            {count}P
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-2 mb-4">
+        {(['rows', 'cols'] as const).map(dimension => (
+          <div key={dimension} className="flex items-center gap-1">
+            <span className="text-sm">{dimension === 'rows' ? 'Rows' : 'Cols'}</span>
+            <button onClick={() => changeSize(dimension, -1)} className={`${buttonClass} ${buttonState(false)}`}>-</button>
+            <span className="w-6 text-center">{map[dimension]}</span>
+            <button onClick={() => changeSize(dimension, 1)} className={`${buttonClass} ${buttonState(false)}`}>+</button>
+          </div>
+        ))}
+        {(['square', 'hex', 'moore'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setMap({ ...map, topology: t })}
+            disabled={needsEvenRows(t, map.wrap) && map.rows % 2 === 1}
+            title={needsEvenRows(t, map.wrap) && map.rows % 2 === 1 ? EVEN_ROWS_HINT : undefined}
+            className={`${buttonClass} ${buttonState((map.topology ?? 'square') === t)} disabled:opacity-40`}
+          >
+            {TOPOLOGY_LABELS[t]}
+          </button>
+        ))}
+        <button
+          onClick={() => setMap({ ...map, wrap: !map.wrap })}
+          disabled={!map.wrap && needsEvenRows(map.topology, true) && map.rows % 2 === 1}
+          title={!map.wrap && needsEvenRows(map.topology, true) && map.rows % 2 === 1 ? EVEN_ROWS_HINT : undefined}
+          className={`${buttonClass} ${buttonState(!!map.wrap)} disabled:opacity-40`}
+        >
+          Wrap
+        </button>
+        {(['base', 'classic'] as const).map(m => (
+          <button key={m} onClick={() => setMode(m)} className={`${buttonClass} ${buttonState(mode === m)}`}>
+            {m === 'base' ? 'Base Reaction' : 'Chain Reaction'}
+          </button>
+        ))}
+      </div>
+
+      <GameBoard
+        grid={displayGrid}
+        rows={map.rows}
+        cols={map.cols}
+        currentPlayer={player}
+        onCellClick={handleCellClick}
+        isValidMove={() => true}
+        powerUps={spawnPoints}
+        hqs={hqs}
+        topology={map.topology}
+        wrap={map.wrap}
+      />
+
+      <div className="w-full max-w-md mt-4">
+        <p className="text-xs text-gray-400 mb-2">Power-up icons mark fixed spawn points.</p>
+        {errors.length === 0 ? (
+          <p className="text-green-400 mb-3">Map is playable in {mode === 'base' ? 'Base Reaction' : 'Chain Reaction'}</p>
+        ) : (
+          <ul className="text-red-400 text-sm mb-3 list-disc pl-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          <input
+            value={map.name}
+            onChange={e => setMap({ ...map, name: e.target.value })}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-black border-2 border-white text-white text-sm"
+            placeholder="Map name"
+          />
+          <button onClick={saveMap} className={`${buttonClass} ${buttonState(false)}`}>Save</button>
+          <button
+            onClick={() => downloadTextFile(`${map.name.trim() || 'map'}.json`, serializeMap(map))}
+            className={`${buttonClass} ${buttonState(false)}`}
+          >
+            Download
+          </button>
+          <button onClick={() => fileInput.current?.click()} className={`${buttonClass} ${buttonState(false)}`}>
+            Load file
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              loadFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        {message && <p className="text-sm text-gray-300 mb-3">{message}</p>}
+
+        {savedMaps.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-lg font-semibold mb-2">Saved maps</h3>
+            {savedMaps.map(saved => (
+              <div key={saved.name} className="flex items-center justify-between gap-2 mb-2">
+                <span className="truncate">{saved.name} ({saved.rows}x{saved.cols})</span>
+                <div className="flex gap-2">
+                  <button onClick={() => setMap(saved)} className={`${buttonClass} ${buttonState(false)}`}>Edit</button>
+                  <button onClick={() => deleteMap(saved.name)} className={`${buttonClass} ${buttonState(false)}`}>Delete</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button onClick={() => navigate("/")} className={`${buttonClass} ${buttonState(false)} w-full`}>
+          Back to Menu
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { GameRecord, GameState, parseRecord, playRecord } from "@shared/engine";
+import GameBoard from "../components/Game/GameBoard";
+import { PLAYER, PLAYER_BG_COLORS, PLAYER_COLORS } from "../lib/constants";
+import { formatMoves } from "../lib/moveTree";
+import type { MovePlayback } from "../lib/stores/useChainReaction";
+import { RECORD_FILE_EXTENSION } from "../lib/gameRecord";
+import { readTextFile } from "../lib/utils";
+
+// Pause between turns while playing, at normal speed (ms)
+const TURN_DELAY = 700;
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const buttonClass = "px-3 py-2 rounded-xl border-2 border-white text-sm transition-all duration-100 disabled:opacity-50";
+const buttonState = (selected: boolean) =>
+  selected ? "bg-white text-black hover:bg-gray-200" : "bg-black text-white hover:bg-gray-800";
+
+const resultText = (state: GameState): string =>
+  !state.gameOver ? "Unfinished" : state.winner ? `${state.winner[0].toUpperCase()}${state.winner.slice(1)} wins` : "Draw";
+
+let nextPlaybackId = 1;
+
+// Plays back a game record turn by turn, animating every chain reaction from
+// the recorded events. A record can be passed in the route state as text
+// (from a game in progress) or loaded from a file.
+const ReplayViewer: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [record, setRecord] = useState<GameRecord | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [notation, setNotation] = useState("");
+  const [index, setIndex] = useState(0); // Turns shown so far
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [playback, setPlayback] = useState<MovePlayback | null>(null);
+  const [animating, setAnimating] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const turns = useMemo(() => (record ? playRecord(record) : []), [record]);
+  const position = record ? (index === 0 ? record.start : turns[index - 1].state) : null;
+  const end = record ? (turns.length > 0 ? turns[turns.length - 1].state : record.start) : null;
+
+  const openRecord = (text: string, source: string) => {
+    try {
+      setRecord(parseRecord(text));
+      setIndex(0);
+      setPlaying(false);
+      setPlayback(null);
+      setAnimating(false);
+      setMessage(null);
+    } catch (error) {
+      setMessage(`Could not load ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // A game handed over from ClassicMode or BaseReactionMode
+  useEffect(() => {
+    const text = (location.state as { record?: string } | null)?.record;
+    if (text) openRecord(text, "the game");
+  }, [location.state]);
+
+  // Jump straight to a turn without animating it
+  const jumpTo = (turn: number) => {
+    setIndex(Math.max(0, Math.min(turns.length, turn)));
+    setPlayback(null);
+    setAnimating(false);
+  };
+
+  // Play the next turn, animating its chain reaction as it happened live
+  const stepForward = () => {
+    if (!record || index >= turns.length) return;
+    const before = index === 0 ? record.start : turns[index - 1].state;
+    const { events } = turns[index];
+    setPlayback({
+      id: nextPlaybackId++,
+      before: { grid: before.grid, hqs: before.hqs, powerUps: before.powerUps },
+      events
+    });
+    setAnimating(events.some(event => event.type === 'cellExploded'));
+    setIndex(index + 1);
+  };
+
+  // While playing, move on once the last chain reaction has finished
+  useEffect(() => {
+    if (!playing || animating) return;
+    if (index >= turns.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(stepForward, TURN_DELAY / speed);
+    return () => clearTimeout(timer);
+  }, [playing, animating, index, speed, turns]);
+
+  // Arrow keys step through the turns, Escape goes back to the menu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "ArrowRight") {
+        setPlaying(false);
+        stepForward();
+      } else if (e.key === "ArrowLeft") {
+        setPlaying(false);
+        jumpTo(index - 1);
+      } else if (e.key === "Escape") {
+        navigate("/");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) openRecord(await readTextFile(file), file.name);
+  };
+
+  const lastTurn = index > 0 ? turns[index - 1] : null;
+
+  return (
+    <div
+      className="min-h-screen flex flex-col items-center p-2 md:p-4 text-white transition-colors duration-500"
+      style={{ fontFamily: 'Menlo, monospace', backgroundColor: position ? PLAYER_BG_COLORS[position.currentPlayer] : 'black' }}
+    >
+      <h1 className="text-3xl font-bold mb-4 pt-4">Replay</h1>
+
+      {record && position && end && (
+        <>
+          <div className="flex flex-wrap justify-center items-center gap-3 mb-2 text-sm">
+            <span>{record.start.config.mode === 'base' ? 'Base Reaction' : 'Chain Reaction'}</span>
+            <span>{record.date}</span>
+            <span>{resultText(end)}</span>
+          </div>
+
+          <div className="flex items-center gap-2 mb-3 h-6 text-sm">
+            {lastTurn ? (
+              <>
+                <span>Turn {index}/{turns.length}</span>
+                <span
+                  className="w-3 h-3 rounded-full"
+                  style={{
+                    backgroundColor: PLAYER_COLORS[lastTurn.player],
+                    border: lastTurn.player === PLAYER.BLACK ? '1px solid white' : 'none'
+                  }}
+                />
+                <span>{formatMoves(lastTurn.moves)}</span>
+              </>
+            ) : (
+              <span>Start of {turns.length} turns</span>
+            )}
+          </div>
+
+          <GameBoard
+            grid={position.grid}
+            rows={position.rows}
+            cols={position.cols}
+            currentPlayer={position.currentPlayer}
+            onCellClick={() => {}}
+            isValidMove={() => false}
+            powerUps={position.powerUps}
+            hqs={position.hqs}
+            playback={playback}
+            onPlaybackComplete={() => setAnimating(false)}
+            topology={position.topology}
+            wrap={position.wrap}
+            playbackSpeed={speed}
+            maxHqHealth={record.start.config.hqHealth}
+            pendingHeartPlayer={position.pendingHeartPlayer}
+          />
+
+          <input
+            type="range"
+            min={0}
+            max={turns.length}
+            value={index}
+            onChange={e => {
+              setPlaying(false);
+              jumpTo(Number(e.target.value));
+            }}
+            className="w-full max-w-xl mt-6"
+            aria-label="Turn"
+          />
+
+          <div className="flex flex-wrap justify-center gap-2 mt-3">
+            <button onClick={() => { setPlaying(false); jumpTo(0); }} disabled={index === 0} className={`${buttonClass} ${buttonState(false)}`}>⏮</button>
+            <button onClick={() => { setPlaying(false); jumpTo(index - 1); }} disabled={index === 0} className={`${buttonClass} ${buttonState(false)}`}>◀</button>
+            <button
+              onClick={() => {
+                // Playing from the end starts over
+                if (!playing && index >= turns.length) jumpTo(0);
+                setPlaying(!playing);
+              }}
+              disabled={turns.length === 0}
+              className={`${buttonClass} ${buttonState(playing)} w-20`}
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={() => { setPlaying(false); stepForward(); }} disabled={index >= turns.length} className={`${buttonClass} ${buttonState(false)}`}>▶</button>
+            <button onClick={() => { setPlaying(false); jumpTo(turns.length); }} disabled={index >= turns.length} className={`${buttonClass} ${buttonState(false)}`}>⏭</button>
+          </div>
+
+          <div className="flex justify-center gap-2 mt-3">
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} className={`${buttonClass} ${buttonState(speed === s)}`}>
+                {s}x
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col items-center w-full max-w-xl mt-6 gap-2">
+        {!record && (
+          <textarea
+            value={notation}
+            onChange={e => setNotation(e.target.value)}
+            className="w-full h-40 px-3 py-2 rounded-xl bg-black border-2 border-white text-white text-xs"
+            placeholder="Paste a game record"
+          />
+        )}
+        <div className="flex flex-wrap justify-center gap-2">
+          {!record && (
+            <button onClick={() => openRecord(notation, "the record")} className={`${buttonClass} ${buttonState(false)}`}>
+              Open
+            </button>
+          )}
+          <button onClick={() => fileInput.current?.click()} className={`${buttonClass} ${buttonState(false)}`}>
+            Load file
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={`${RECORD_FILE_EXTENSION},text/plain`}
+            className="hidden"
+            onChange={e => {
+              loadFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          <button onClick={() => navigate("/")} className={`${buttonClass} ${buttonState(false)}`}>
+            Back to Menu
+          </button>
+        </div>
+        {message && <p className="text-sm text-gray-300 text-center">{message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,45 @@
+import { AI_STRATEGIES, AI_STRATEGY, AISettingsOverrides, getDefaultAISettings } from "../client/src/lib/aiPlayer";
+
+/*
+ * Command-line parsing shared by the tournament runner and the determinism
+ * check. A bot is a strategy, optionally followed by ":" and setting=value
+ * pairs separated by commas that replace its defaults, such as
+ * mcts:iterations=1000,exploration=1.
+ */
+
+export type BotSpec = {
+  strategy: AI_STRATEGY;
+  overrides: AISettingsOverrides;
+};
+
+export const parseBot = (spec: string): BotSpec => {
+  const separator = spec.indexOf(":");
+  const name = separator === -1 ? spec : spec.slice(0, separator);
+  const strategy = AI_STRATEGIES.find(candidate => candidate === name);
+  if (!strategy) throw new Error(`Unknown strategy "${name}" in bot "${spec}"`);
+
+  const overrides: Record<string, number> = {};
+  if (separator !== -1) {
+    const defaults = getDefaultAISettings(strategy);
+    spec.slice(separator + 1).split(",").forEach(setting => {
+      const [key, text] = setting.split("=");
+      if (!defaults || !(key in defaults)) throw new Error(`${strategy} has no setting "${key}"`);
+      const value = Number(text);
+      if (text === undefined || Number.isNaN(value)) throw new Error(`Bad value for ${key} in bot "${spec}"`);
+      if (key === "iterations" && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`iterations must be a whole number of at least 1 in bot "${spec}"`);
+      }
+      overrides[key] = value;
+    });
+  }
+  return { strategy, overrides };
+};
+
+export const parseInteger = (text: string | undefined, name: string, fallback: number, min: number, max: number): number => {
+  if (text === undefined) return fallback;
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`--${name} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+};
@@ -0,0 +1,131 @@
+import { parseArgs } from "node:util";
+import {
+  PLAYER,
+  PLAYER_CONTROL,
+  DEFAULT_BOARD_SIZES,
+  GameMode,
+  Move,
+  applyMove,
+  createGameConfig,
+  createInitialState,
+  serializeRecord
+} from "@shared/engine";
+import { AI_STRATEGIES, GAME_TIME_LIMIT_MS, getAIDecision } from "../client/src/lib/aiPlayer";
+import { BotSpec, parseBot, parseInteger } from "./bots";
+
+/*
+ * Checks that AI games repeat exactly: for each bot, one seeded game with the
+ * bot in every seat is played twice, and the two game records must match
+ * move for move, spawns and result included.
+ *
+ *   npm run check:determinism -- --bot hard --bot mcts:iterations=1000 --mode base
+ *
+ * Every strategy at its default settings is checked when no bot is given.
+ * Exits with status 1 when any pair of games differs. The games have no time
+ * limit, so a bot whose slowest move here is over the game's time cap gets a
+ * warning: in the game it would be cut short, and would not repeat.
+ */
+
+const USAGE = `Usage: npm run check:determinism -- [--bot <spec> ...] [options]
+
+  --bot <spec>       Bot to check, repeat for each (strategy[:setting=value,...])
+                     Strategies: ${AI_STRATEGIES.join(", ")} (default all)
+  --mode <mode>      classic or base (default base)
+  --players <n>      Players per game, 2 to 4 (default 2)
+  --seed <n>         Game seed (default 1)
+  --max-turns <n>    Turns played per game (default 8)`;
+
+const SEATS = [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE, PLAYER.BLACK];
+
+type PlayedGame = {
+  record: string;
+  slowestMoveMs: number;
+};
+
+// Play one game with the bot in every seat and write it as a record
+const playGame = (bot: BotSpec, mode: GameMode, players: number, seed: number, maxTurns: number): PlayedGame => {
+  const seats = SEATS.slice(0, players);
+  const { rows, cols } = DEFAULT_BOARD_SIZES[mode];
+  const config = createGameConfig({
+    mode,
+    players: seats,
+    rows,
+    cols,
+    seed,
+    controllers: seats.map(player => ({ player, control: PLAYER_CONTROL.AI, aiStrategy: bot.strategy }))
+  });
+
+  const start = createInitialState(config);
+  const turns: Move[][] = [];
+  let state = start;
+  let slowestMoveMs = 0;
+  while (!state.gameOver && (turns.length < maxTurns || state.pendingHeartPlayer)) {
+    const { move, analysis } = getAIDecision(state, bot.strategy, bot.overrides);
+    slowestMoveMs = Math.max(slowestMoveMs, analysis.timeMs);
+    if (!move) break;
+    // A heart's target belongs to the turn that picked the heart up
+    if (state.pendingHeartPlayer) {
+      turns[turns.length - 1].push(move);
+    } else {
+      turns.push([move]);
+    }
+    state = applyMove(state, move).nextState;
+  }
+
+  return { record: serializeRecord({ start, turns, date: "2000-01-01" }), slowestMoveMs };
+};
+
+const main = (): boolean => {
+  const { values } = parseArgs({
+    options: {
+      bot: { type: "string", multiple: true },
+      mode: { type: "string" },
+      players: { type: "string" },
+      seed: { type: "string" },
+      "max-turns": { type: "string" },
+      help: { type: "boolean" }
+    }
+  });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return true;
+  }
+
+  const mode = (values.mode ?? "base") as GameMode;
+  if (mode !== "classic" && mode !== "base") throw new Error(`--mode must be classic or base`);
+  const players = parseInteger(values.players, "players", 2, 2, 4);
+  const seed = parseInteger(values.seed, "seed", 1, 0, 0xffffffff);
+  const maxTurns = parseInteger(values["max-turns"], "max-turns", 8, 1, Number.MAX_SAFE_INTEGER);
+  const specs = values.bot ?? AI_STRATEGIES;
+
+  let allMatch = true;
+  specs.forEach(spec => {
+    const bot = parseBot(spec);
+    const startedAt = Date.now();
+    const first = playGame(bot, mode, players, seed, maxTurns);
+    const second = playGame(bot, mode, players, seed, maxTurns);
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+    const slowestMoveMs = Math.max(first.slowestMoveMs, second.slowestMoveMs);
+
+    if (first.record === second.record) {
+      process.stdout.write(`ok    ${spec} (${seconds}s, slowest move ${slowestMoveMs}ms)\n`);
+      if (slowestMoveMs > GAME_TIME_LIMIT_MS) {
+        process.stdout.write(`  warning: slower than the game's ${GAME_TIME_LIMIT_MS}ms cap on this machine\n`);
+      }
+      return;
+    }
+    allMatch = false;
+    const firstLines = first.record.split("\n");
+    const secondLines = second.record.split("\n");
+    const line = firstLines.findIndex((text, i) => text !== secondLines[i]);
+    process.stdout.write(`FAIL  ${spec}: the records differ\n  first:  ${firstLines[line]}\n  second: ${secondLines[line]}\n`);
+  });
+  return allMatch;
+};
+
+try {
+  if (!main()) process.exit(1);
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
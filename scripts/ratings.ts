@@ -0,0 +1,95 @@
+/*
+ * Rating systems for the tournament runner. Games with more than two players
+ * are split into pairwise results: the winner beats everyone else, and the
+ * others draw among themselves. A drawn game is a draw for every pair.
+ */
+
+// One pairing from a game: score is 1 when a won, 0.5 for a draw, 0 when b won
+export type PairResult = {
+  a: number;
+  b: number;
+  score: number;
+};
+
+export const pairResults = (participants: number[], winner: number | null): PairResult[] => {
+  const results: PairResult[] = [];
+  participants.forEach((a, i) => {
+    participants.slice(i + 1).forEach(b => {
+      const score = winner === a ? 1 : winner === b ? 0 : 0.5;
+      results.push({ a, b, score });
+    });
+  });
+  return results;
+};
+
+export const ELO_START = 1500;
+const ELO_K = 16;
+
+const expectedScore = (rating: number, opponent: number): number =>
+  1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+/**
+ * Update Elo ratings in place after one game. Every pairing is judged on the
+ * ratings from before the game, so the order of pairings does not matter.
+ */
+export const updateElo = (ratings: number[], results: PairResult[]): void => {
+  const changes = ratings.map(() => 0);
+  results.forEach(({ a, b, score }) => {
+    const change = ELO_K * (score - expectedScore(ratings[a], ratings[b]));
+    changes[a] += change;
+    changes[b] -= change;
+  });
+  changes.forEach((change, i) => { ratings[i] += change; });
+};
+
+// Glicko-1 rating with its deviation (uncertainty)
+export type GlickoRating = {
+  rating: number;
+  rd: number;
+};
+
+export const GLICKO_START: GlickoRating = { rating: 1500, rd: 350 };
+
+// Bots do not change between games, but a floor on the deviation keeps late
+// results counting instead of freezing the ratings
+const GLICKO_MIN_RD = 30;
+
+const Q = Math.log(10) / 400;
+
+const g = (rd: number): number => 1 / Math.sqrt(1 + (3 * Q * Q * rd * rd) / (Math.PI * Math.PI));
+
+/**
+ * Update Glicko-1 ratings in place, treating one game as a rating period for
+ * everyone in it.
+ */
+export const updateGlicko = (ratings: GlickoRating[], results: PairResult[]): void => {
+  // Each player's games in this period, from their own side
+  const games = new Map<number, { opponent: number; score: number }[]>();
+  const addGame = (player: number, opponent: number, score: number) =>
+    games.set(player, [...(games.get(player) ?? []), { opponent, score }]);
+  results.forEach(({ a, b, score }) => {
+    addGame(a, b, score);
+    addGame(b, a, 1 - score);
+  });
+
+  const updated = new Map<number, GlickoRating>();
+  games.forEach((played, player) => {
+    const { rating, rd } = ratings[player];
+    let variance = 0;
+    let improvement = 0;
+    played.forEach(({ opponent, score }) => {
+      const { rating: opponentRating, rd: opponentRd } = ratings[opponent];
+      const weight = g(opponentRd);
+      const expected = 1 / (1 + Math.pow(10, (-weight * (rating - opponentRating)) / 400));
+      variance += weight * weight * expected * (1 - expected);
+      improvement += weight * (score - expected);
+    });
+    const dSquared = 1 / (Q * Q * variance);
+    const precision = 1 / (rd * rd) + 1 / dSquared;
+    updated.set(player, {
+      rating: rating + (Q / precision) * improvement,
+      rd: Math.max(GLICKO_MIN_RD, Math.sqrt(1 / precision))
+    });
+  });
+  updated.forEach((rating, player) => { ratings[player] = rating; });
+};
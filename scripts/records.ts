@@ -0,0 +1,130 @@
+import {
+  PLAYER,
+  GameRecord,
+  GameState,
+  Move,
+  applyMove,
+  createBlankMap,
+  createGameConfig,
+  createInitialState,
+  getValidMoves,
+  parsePosition,
+  parseRecord,
+  serializePosition,
+  serializeRecord
+} from "@shared/engine";
+
+/*
+ * Checks that game records and positions read back as they were written: each
+ * case builds a game or position, writes it, reads it and writes it again, and
+ * both texts must match. Records edited to contradict themselves must be
+ * rejected.
+ *
+ *   npm run check:records
+ *
+ * Exits with status 1 when any case fails.
+ */
+
+type Case = {
+  name: string;
+  check: () => void; // Throws on the first problem found
+};
+
+const expectSame = (written: string, rewritten: string) => {
+  if (written !== rewritten) throw new Error(`it reads back differently\n${written}\n${rewritten}`);
+};
+
+const checkRecord = (record: GameRecord) => {
+  const written = serializeRecord(record);
+  expectSame(written, serializeRecord(parseRecord(written)));
+};
+
+// Play each turn's clicks in order and keep them as the record's turns
+const recordTurns = (start: GameState, turns: ((state: GameState) => Move)[][]): GameRecord => {
+  let state = start;
+  const moves = turns.map(clicks => clicks.map(click => {
+    const move = click(state);
+    state = applyMove(state, move).nextState;
+    return move;
+  }));
+  return { start, turns: moves, date: "2000-01-01" };
+};
+
+const firstValidMove = (state: GameState): Move => getValidMoves(state)[0];
+
+const CASES: Case[] = [
+  {
+    // A heart's target click on a cell that is no enemy HQ cancels the heart
+    name: "cancelled heart",
+    check: () => {
+      const config = createGameConfig({ mode: "base", players: [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE], rows: 9, cols: 9, seed: 1 });
+      const initial = createInitialState(config);
+      const start = { ...initial, powerUps: [{ ...firstValidMove(initial), type: "heart" as const }] };
+      // The middle cell: no HQ, and not yet a legal move for anyone
+      const cancel = (): Move => ({ row: 4, col: 4 });
+      checkRecord(recordTurns(start, [[firstValidMove, cancel], [firstValidMove], [firstValidMove], [firstValidMove]]));
+    }
+  },
+  {
+    // HQs never explode, so diamonds can pile more than 9 atoms on them
+    name: "HQ with 12 atoms",
+    check: () => {
+      const config = createGameConfig({ mode: "base", players: [PLAYER.RED, PLAYER.BLUE], rows: 9, cols: 9, seed: 1 });
+      const initial = createInitialState(config);
+      const [hq] = initial.hqs;
+      const grid = initial.grid.map((cells, row) => cells.map((cell, col) =>
+        row === hq.row && col === hq.col ? { ...cell, atoms: 12 } : cell
+      ));
+      checkRecord(recordTurns({ ...initial, grid }, [[firstValidMove], [firstValidMove]]));
+    }
+  },
+  {
+    // The seats named in the Players tag must be the ones in the position
+    name: "players that do not match the position",
+    check: () => {
+      const config = createGameConfig({ mode: "base", players: [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE], rows: 9, cols: 9, seed: 1 });
+      const written = serializeRecord({ start: createInitialState(config), turns: [], date: "2000-01-01" });
+      const edited = written.replace('[Players "red blue orange"]', '[Players "red orange blue"]');
+      if (edited === written) throw new Error("the Players tag was not found");
+      try {
+        parseRecord(edited);
+      } catch {
+        return;
+      }
+      throw new Error("the edited record was accepted");
+    }
+  },
+  {
+    // Power-ups on a custom map only appear at its spawn points
+    name: "map spawn points",
+    check: () => {
+      const map = {
+        ...createBlankMap("Spawns", 7, 7, [PLAYER.RED, PLAYER.BLUE]),
+        hqs: [{ row: 3, col: 0, player: PLAYER.RED }, { row: 3, col: 6, player: PLAYER.BLUE }],
+        powerUpSpawns: [{ row: 1, col: 3 }, { row: 5, col: 3 }]
+      };
+      const written = serializePosition(createInitialState(createGameConfig({ mode: "base", map, seed: 1 })));
+      const read = parsePosition(written);
+      expectSame(written, serializePosition(read));
+      if (JSON.stringify(read.config.map?.powerUpSpawns) !== JSON.stringify(map.powerUpSpawns)) {
+        throw new Error("the spawn points are lost");
+      }
+    }
+  }
+];
+
+const main = (): boolean => {
+  let allPassed = true;
+  CASES.forEach(({ name, check }) => {
+    try {
+      check();
+      process.stdout.write(`ok    ${name}\n`);
+    } catch (error) {
+      allPassed = false;
+      process.stdout.write(`FAIL  ${name}: ${error instanceof Error ? error.message : error}\n`);
+    }
+  });
+  return allPassed;
+};
+
+if (!main()) process.exit(1);
@@ -0,0 +1,240 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  PLAYER,
+  PLAYER_CONTROL,
+  DEFAULT_BOARD_SIZES,
+  GameMode,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  applyMove,
+  createGameConfig,
+  createInitialState,
+  deriveSeed
+} from "@shared/engine";
+import { AI_STRATEGIES, getAIDecision } from "../client/src/lib/aiPlayer";
+import { BotSpec, parseBot, parseInteger } from "./bots";
+import { ELO_START, GLICKO_START, GlickoRating, pairResults, updateElo, updateGlicko } from "./ratings";
+
+/*
+ * Headless AI-vs-AI tournament. Plays seeded games between bot configurations
+ * with the shared rules engine and AI, then reports win rates, game lengths
+ * and Elo and Glicko ratings, optionally as JSON and CSV files.
+ *
+ *   npm run tournament -- --bot easy --bot medium --bot mcts:iterations=1000 \
+ *     --games 300 --mode base --players 3 --rows 9 --cols 9 --out reports/run
+ *
+ * A bot is a strategy, optionally followed by ":" and setting=value pairs
+ * separated by commas that replace its defaults (see getDefaultAISettings),
+ * such as expert:maxDepth=4,maxNodes=20000. Every game gets its own seed,
+ * derived from --seed, and lineups rotate through every seating of the bots.
+ * Budgets count positions and playouts, so games repeat exactly; setting a
+ * timeLimitMs makes a bot play differently on faster or slower machines.
+ */
+
+type Bot = BotSpec & {
+  name: string;
+};
+
+type GameResult = {
+  game: number;
+  seed: number;
+  bots: string[]; // By seat
+  winner: string | null; // Null for a draw or a game stopped at the turn limit
+  turns: number;
+  ms: number;
+};
+
+type BotReport = {
+  name: string;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  winRate: number;
+  averageTurns: number;
+  averageMoveMs: number;
+  elo: number;
+  glicko: number;
+  glickoRd: number;
+};
+
+const USAGE = `Usage: npm run tournament -- --bot <spec> --bot <spec> [options]
+
+  --bot <spec>       Bot to enter, repeat for each (strategy[:setting=value,...])
+                     Strategies: ${AI_STRATEGIES.join(", ")}
+  --games <n>        Games to play (default 100)
+  --mode <mode>      classic or base (default classic)
+  --players <n>      Players per game, 2 to 4 (default 2)
+  --rows <n>         Board rows (default for the mode)
+  --cols <n>         Board columns (default for the mode)
+  --seed <n>         Seed the game seeds are derived from (default 1)
+  --max-turns <n>    Dots placed before a game counts as a draw (default 1000)
+  --out <path>       Write <path>.json and <path>.csv`;
+
+const SEATS = [PLAYER.RED, PLAYER.BLUE, PLAYER.ORANGE, PLAYER.BLACK];
+
+// Every ordered choice of `size` different bots, so each bot sits in each seat
+const getLineups = (botCount: number, size: number): number[][] => {
+  if (size === 0) return [[]];
+  return getLineups(botCount, size - 1).flatMap(lineup =>
+    Array.from({ length: botCount }, (_, bot) => bot)
+      .filter(bot => !lineup.includes(bot))
+      .map(bot => [...lineup, bot])
+  );
+};
+
+const toCsv = (reports: BotReport[]): string => {
+  const columns: (keyof BotReport)[] = ["name", "games", "wins", "draws", "losses", "winRate", "averageTurns", "averageMoveMs", "elo", "glicko", "glickoRd"];
+  const cell = (value: string | number) =>
+    typeof value === "number" ? String(Math.round(value * 1000) / 1000) : `"${value.replace(/"/g, '""')}"`;
+  return [columns.join(","), ...reports.map(report => columns.map(column => cell(report[column])).join(","))].join("\n") + "\n";
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      bot: { type: "string", multiple: true },
+      games: { type: "string" },
+      mode: { type: "string" },
+      players: { type: "string" },
+      rows: { type: "string" },
+      cols: { type: "string" },
+      seed: { type: "string" },
+      "max-turns": { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" }
+    }
+  });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const mode = (values.mode ?? "classic") as GameMode;
+  if (mode !== "classic" && mode !== "base") throw new Error(`--mode must be classic or base`);
+  const players = parseInteger(values.players, "players", 2, 2, 4);
+  const games = parseInteger(values.games, "games", 100, 1, Number.MAX_SAFE_INTEGER);
+  const rows = parseInteger(values.rows, "rows", DEFAULT_BOARD_SIZES[mode].rows, MIN_BOARD_SIZE, MAX_BOARD_SIZE);
+  const cols = parseInteger(values.cols, "cols", DEFAULT_BOARD_SIZES[mode].cols, MIN_BOARD_SIZE, MAX_BOARD_SIZE);
+  const baseSeed = parseInteger(values.seed, "seed", 1, 0, 0xffffffff);
+  const maxTurns = parseInteger(values["max-turns"], "max-turns", 1000, 1, Number.MAX_SAFE_INTEGER);
+
+  const specs = values.bot ?? [];
+  if (specs.length < players) throw new Error(`Enter at least ${players} bots with --bot\n\n${USAGE}`);
+  // The same spec entered twice is two separate bots
+  const bots: Bot[] = specs.map((spec, i) => ({
+    name: specs.indexOf(spec) === i ? spec : `${spec}#${specs.slice(0, i + 1).filter(other => other === spec).length}`,
+    ...parseBot(spec)
+  }));
+
+  const lineups = getLineups(bots.length, players);
+  const seats = SEATS.slice(0, players);
+  const elo = bots.map(() => ELO_START);
+  const glicko: GlickoRating[] = bots.map(() => ({ ...GLICKO_START }));
+  const thinking = bots.map(() => ({ ms: 0, moves: 0 }));
+  const results: GameResult[] = [];
+
+  for (let game = 0; game < games; game++) {
+    const lineup = lineups[game % lineups.length];
+    const seed = deriveSeed(baseSeed, game);
+    const config = createGameConfig({
+      mode,
+      players: seats,
+      rows,
+      cols,
+      seed,
+      controllers: seats.map((player, seat) => ({ player, control: PLAYER_CONTROL.AI, aiStrategy: bots[lineup[seat]].strategy }))
+    });
+    const startedAt = Date.now();
+
+    let state = createInitialState(config);
+    while (!state.gameOver && state.turn < maxTurns) {
+      const seat = seats.indexOf(state.pendingHeartPlayer ?? state.currentPlayer);
+      const bot = lineup[seat];
+      const { move, analysis } = getAIDecision(state, bots[bot].strategy, bots[bot].overrides);
+      thinking[bot].ms += analysis.timeMs;
+      thinking[bot].moves++;
+
+      if (move) {
+        state = applyMove(state, move).nextState;
+      } else if (state.pendingHeartPlayer) {
+        // No HQ to hit: any other cell cancels the heart, as in the game
+        state = applyMove(state, { row: 0, col: 0 }).nextState;
+      } else {
+        break;
+      }
+    }
+
+    const winnerBot = state.gameOver && state.winner ? lineup[seats.indexOf(state.winner)] : null;
+    const pairs = pairResults(lineup, winnerBot);
+    updateElo(elo, pairs);
+    updateGlicko(glicko, pairs);
+    results.push({
+      game: game + 1,
+      seed,
+      bots: lineup.map(bot => bots[bot].name),
+      winner: winnerBot === null ? null : bots[winnerBot].name,
+      turns: state.turn,
+      ms: Date.now() - startedAt
+    });
+
+    if ((game + 1) % Math.max(1, Math.floor(games / 10)) === 0 || game + 1 === games) {
+      process.stderr.write(`Played ${game + 1}/${games} games\n`);
+    }
+  }
+
+  const reports: BotReport[] = bots.map((bot, i) => {
+    const played = results.filter(result => result.bots.includes(bot.name));
+    const wins = played.filter(result => result.winner === bot.name).length;
+    const draws = played.filter(result => result.winner === null).length;
+    return {
+      name: bot.name,
+      games: played.length,
+      wins,
+      draws,
+      losses: played.length - wins - draws,
+      winRate: played.length > 0 ? wins / played.length : 0,
+      averageTurns: played.length > 0 ? played.reduce((sum, result) => sum + result.turns, 0) / played.length : 0,
+      averageMoveMs: thinking[i].moves > 0 ? thinking[i].ms / thinking[i].moves : 0,
+      elo: elo[i],
+      glicko: glicko[i].rating,
+      glickoRd: glicko[i].rd
+    };
+  }).sort((a, b) => b.elo - a.elo);
+
+  const averageTurns = results.reduce((sum, result) => sum + result.turns, 0) / results.length;
+  const lines = [
+    `${games} games, ${mode} ${rows}x${cols}, ${players} players, seed ${baseSeed}; average length ${averageTurns.toFixed(1)} turns`,
+    "",
+    `${"Bot".padEnd(32)} ${"Games".padStart(6)} ${"Wins".padStart(6)} ${"Draws".padStart(6)} ${"Win %".padStart(6)} ${"Turns".padStart(6)} ${"ms/move".padStart(8)} ${"Elo".padStart(6)} ${"Glicko".padStart(11)}`,
+    ...reports.map(report => [
+      report.name.padEnd(32),
+      String(report.games).padStart(6),
+      String(report.wins).padStart(6),
+      String(report.draws).padStart(6),
+      (report.winRate * 100).toFixed(1).padStart(6),
+      report.averageTurns.toFixed(1).padStart(6),
+      report.averageMoveMs.toFixed(1).padStart(8),
+      report.elo.toFixed(0).padStart(6),
+      `${report.glicko.toFixed(0)}±${report.glickoRd.toFixed(0)}`.padStart(11)
+    ].join(" "))
+  ];
+  process.stdout.write(`${lines.join("\n")}\n`);
+
+  if (values.out) {
+    mkdirSync(dirname(values.out), { recursive: true });
+    const settings = { games, mode, players, rows, cols, seed: baseSeed, maxTurns, bots };
+    writeFileSync(`${values.out}.json`, JSON.stringify({ settings, averageTurns, bots: reports, games: results }, null, 2));
+    writeFileSync(`${values.out}.csv`, toCsv(reports));
+    process.stdout.write(`\nReport written to ${values.out}.json and ${values.out}.csv\n`);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
@@ -0,0 +1,98 @@
+import { PLAYER, BoardLayout, GridCell, GameState, HQCell, Position } from "./types";
+import { getTopology } from "./topology";
+
+type BoardSize = Pick<GameState, "rows" | "cols">;
+type Board = Pick<GameState, "rows" | "cols" | "grid"> & BoardLayout;
+
+// Create a grid of empty cells
+export const createEmptyGrid = (rows: number, cols: number): GridCell[][] => {
+  const grid: GridCell[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const row: GridCell[] = [];
+    for (let c = 0; c < cols; c++) {
+      row.push({ atoms: 0, player: null });
+    }
+    grid.push(row);
+  }
+  return grid;
+};
+
+export const cloneGrid = (grid: GridCell[][]): GridCell[][] =>
+  grid.map(row => row.map(cell => ({ ...cell })));
+
+// Copy a state deeply enough that the rules can mutate the copy freely
+export const cloneState = (state: GameState): GameState => ({
+  ...state,
+  grid: cloneGrid(state.grid),
+  players: [...state.players],
+  hqs: state.hqs.map(hq => ({ ...hq })),
+  powerUps: state.powerUps.map(powerUp => ({ ...powerUp }))
+});
+
+export const isInBounds = (board: BoardSize, row: number, col: number): boolean =>
+  row >= 0 && col >= 0 && row < board.rows && col < board.cols;
+
+export const isBlocked = (board: Board, row: number, col: number): boolean =>
+  !!board.grid[row]?.[col]?.blocked;
+
+// Cells an explosion spreads to, leaving out walls
+export const getNeighbors = (board: Board, row: number, col: number): Position[] =>
+  getTopology(board.topology).neighbors(board, row, col).filter(({ row: r, col: c }) => !isBlocked(board, r, c));
+
+// Whether two cells touch for placement rules (square grids include diagonals)
+export const isTouching = (board: Board, row1: number, col1: number, row2: number, col2: number): boolean =>
+  getTopology(board.topology).touching(board, row1, col1).some(({ row, col }) => row === row2 && col === col2);
+
+// A cell explodes once it holds as many atoms as it has neighbours, so edges
+// and walls both lower it. A cell walled in on all sides explodes at 1.
+export const getCriticalMass = (board: Board, row: number, col: number): number =>
+  Math.max(1, getNeighbors(board, row, col).length);
+
+// Check if a cell is adjacent (including diagonally) to another cell
+export const isAdjacentTo = (row1: number, col1: number, row2: number, col2: number): boolean => {
+  return Math.abs(row1 - row2) <= 1 && Math.abs(col1 - col2) <= 1;
+};
+
+export const findHQAt = (state: GameState, row: number, col: number): HQCell | undefined =>
+  state.hqs.find(hq => hq.row === row && hq.col === col);
+
+export const getPlayersOnBoard = (grid: GridCell[][]): Set<PLAYER> => {
+  const players = new Set<PLAYER>();
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell.player) players.add(cell.player);
+    }
+  }
+  return players;
+};
+
+// HQs sit on the middle of the board edges in clockwise seat order:
+// left, top, right, bottom. 2 players face each other across the longer side.
+// On a wrapping board the edges touch, so HQs move a quarter of the way in.
+export const createHQs = (
+  players: PLAYER[],
+  rows: number,
+  cols: number,
+  health: number,
+  wrap = false
+): HQCell[] => {
+  const midRow = Math.floor(rows / 2);
+  const midCol = Math.floor(cols / 2);
+  const rowInset = wrap ? Math.floor(rows / 4) : 0;
+  const colInset = wrap ? Math.floor(cols / 4) : 0;
+  const left = { row: midRow, col: colInset };
+  const top = { row: rowInset, col: midCol };
+  const right = { row: midRow, col: cols - 1 - colInset };
+  const bottom = { row: rows - 1 - rowInset, col: midCol };
+
+  let positions = [left, top, right, bottom];
+  if (players.length === 2) {
+    positions = rows > cols ? [top, bottom] : [left, right];
+  }
+
+  return players.slice(0, 4).map((player, index) => ({
+    ...positions[index],
+    player,
+    health
+  }));
+};
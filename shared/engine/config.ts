@@ -0,0 +1,72 @@
+import { PLAYER, PLAYER_CONTROL, GameConfig, GameMode, PlayerController, TopologyKind } from "./types";
+
+export const DEFAULT_HQ_HEALTH = 5;
+
+// Supported board dimensions, in cells per side
+export const MIN_BOARD_SIZE = 5;
+export const MAX_BOARD_SIZE = 20;
+
+export const DEFAULT_BOARD_SIZES: Record<GameMode, { rows: number; cols: number }> = {
+  classic: { rows: 9, cols: 7 },
+  base: { rows: 9, cols: 9 }
+};
+
+// Hex rows alternate their offset, so they only wrap top to bottom in pairs
+export const needsEvenRows = (topology: TopologyKind | undefined, wrap: boolean | undefined): boolean =>
+  topology === 'hex' && !!wrap;
+
+// Clamp a side to the supported range, rounding up to an even count if asked
+export const clampBoardSize = (size: number, even = false): number => {
+  const clamped = Math.min(MAX_BOARD_SIZE, Math.max(MIN_BOARD_SIZE, Math.round(size)));
+  if (!even || clamped % 2 === 0) return clamped;
+  return clamped < MAX_BOARD_SIZE ? clamped + 1 : clamped - 1;
+};
+
+export const DEFAULT_POWER_UP_RULES = {
+  enabled: true,
+  spawnChance: 0.25,
+  maxOnBoard: 4
+};
+
+// Random seed for a new game
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// Fill in defaults for everything the caller did not choose
+export const createGameConfig = (config: Partial<GameConfig> & Pick<GameConfig, "mode">): GameConfig => {
+  const { map } = config;
+  const players = config.players ?? map?.players ?? [PLAYER.RED, PLAYER.BLUE];
+  const defaultSize = DEFAULT_BOARD_SIZES[config.mode];
+  const topology = map ? map.topology ?? 'square' : config.topology ?? 'square';
+  const wrap = map ? !!map.wrap : config.wrap ?? false;
+  const rows = map ? map.rows : config.rows ?? defaultSize.rows;
+
+  // A map's size is fixed, so validateMap rejects odd rows on wrapping hex
+  // boards; any other board gets the extra row it needs
+  if (map && needsEvenRows(topology, wrap) && rows % 2 === 1) {
+    throw new Error("Wrapping hex boards need an even number of rows");
+  }
+
+  return {
+    mode: config.mode,
+    players: [...players],
+    controllers: players.map(player =>
+      config.controllers?.find(controller => controller.player === player) ?? { player, control: PLAYER_CONTROL.HUMAN }
+    ),
+    rows: needsEvenRows(topology, wrap) && rows % 2 === 1 ? rows + 1 : rows,
+    cols: map ? map.cols : config.cols ?? defaultSize.cols,
+    topology,
+    wrap,
+    shape: config.shape ?? 'rectangle',
+    resolution: config.resolution ?? 'sequential',
+    map,
+    hqHealth: config.hqHealth ?? DEFAULT_HQ_HEALTH,
+    powerUps: { ...DEFAULT_POWER_UP_RULES, ...config.powerUps },
+    seed: config.seed ?? createSeed()
+  };
+};
+
+export const getController = (config: GameConfig, player: PLAYER): PlayerController | undefined =>
+  config.controllers.find(controller => controller.player === player);
+
+export const isAIControlled = (config: GameConfig, player: PLAYER): boolean =>
+  getController(config, player)?.control === PLAYER_CONTROL.AI;
@@ -0,0 +1,85 @@
+import { GameEvent, GameState } from "./types";
+import { cloneGrid } from "./board";
+
+// The visible part of a position, which is all that event playback touches
+export type EventBoard = Pick<GameState, "grid" | "hqs" | "powerUps">;
+
+export const cloneBoard = (board: EventBoard): EventBoard => ({
+  grid: cloneGrid(board.grid),
+  hqs: board.hqs.map(hq => ({ ...hq })),
+  powerUps: board.powerUps.map(powerUp => ({ ...powerUp }))
+});
+
+// Apply one event to a board in place
+export const applyEvent = (board: EventBoard, event: GameEvent): void => {
+  switch (event.type) {
+    case 'atomPlaced':
+      board.grid[event.row][event.col] = { atoms: event.atoms, player: event.player };
+      break;
+    case 'powerUpConsumed':
+      board.powerUps = board.powerUps.filter(pu => pu.row !== event.row || pu.col !== event.col);
+      break;
+    case 'powerUpSpawned':
+      board.powerUps = [...board.powerUps, { row: event.row, col: event.col, type: event.powerUp }];
+      break;
+    case 'cellExploded':
+      board.grid[event.row][event.col] = event.atoms > 0
+        ? { atoms: event.atoms, player: event.player }
+        : { atoms: 0, player: null };
+      event.spread.forEach(({ row, col, atoms }) => {
+        board.grid[row][col] = { atoms, player: event.player };
+      });
+      break;
+    case 'hqDamaged':
+    case 'hqHealed':
+      board.hqs = board.hqs.map(hq =>
+        hq.row === event.row && hq.col === event.col ? { ...hq, health: event.health } : hq
+      );
+      break;
+    case 'hqDestroyed':
+      board.hqs = board.hqs.map(hq =>
+        hq.row === event.row && hq.col === event.col ? { ...hq, health: 0 } : hq
+      );
+      break;
+    case 'playerEliminated':
+      board.hqs = board.hqs.filter(hq => hq.player !== event.player);
+      board.grid = board.grid.map(row =>
+        row.map(cell => (cell.player === event.player ? { atoms: 0, player: null } : cell))
+      );
+      break;
+    case 'chainCollapsed':
+      event.cells.forEach(({ row, col, atoms }) => {
+        board.grid[row][col] = atoms > 0 ? { atoms, player: event.player } : { atoms: 0, player: null };
+      });
+      break;
+    // Captures and turn changes are already reflected in the cell updates
+    case 'cellCaptured':
+    case 'turnPassed':
+      break;
+  }
+};
+
+// Replay a list of events onto a copy of the board
+export const replayEvents = (board: EventBoard, events: GameEvent[]): EventBoard => {
+  const next = cloneBoard(board);
+  events.forEach(event => applyEvent(next, event));
+  return next;
+};
+
+/**
+ * Group events into animation beats. Every explosion wave starts a new beat
+ * (a single explosion when resolving sequentially), and the events it causes
+ * (captures, HQ hits) play together with it.
+ */
+export const splitIntoBeats = (events: GameEvent[]): GameEvent[][] => {
+  const beats: GameEvent[][] = [[]];
+  let wave: number | null = null;
+  events.forEach(event => {
+    if (event.type === 'cellExploded' && event.wave !== wave) {
+      beats.push([]);
+      wave = event.wave;
+    }
+    beats[beats.length - 1].push(event);
+  });
+  return beats.filter(beat => beat.length > 0);
+};
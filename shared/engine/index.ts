@@ -0,0 +1,13 @@
+// Framework-free game rules shared by the client store, the AI and the server
+export * from "./types";
+export * from "./board";
+export * from "./topology";
+export * from "./config";
+export * from "./shapes";
+export * from "./rules";
+export * from "./turns";
+export * from "./maps";
+export * from "./events";
+export * from "./notation";
+export * from "./record";
+export * from "./random";
@@ -0,0 +1,185 @@
+import { PLAYER, BoardMap, GameMode, GridCell, MapHQ, Position, TopologyKind } from "./types";
+import { createEmptyGrid, getCriticalMass, getNeighbors, isInBounds } from "./board";
+import { MAX_BOARD_SIZE, MIN_BOARD_SIZE, createGameConfig, needsEvenRows } from "./config";
+import { createInitialState, getValidMoves } from "./rules";
+
+// Bumped whenever the saved map format changes
+export const MAP_FORMAT_VERSION = 1;
+
+export const createBlankMap = (name: string, rows: number, cols: number, players: PLAYER[]): BoardMap => ({
+  name,
+  rows,
+  cols,
+  players: [...players],
+  grid: createEmptyGrid(rows, cols),
+  hqs: [],
+  powerUpSpawns: []
+});
+
+// Change the map size, keeping everything that still fits
+export const resizeMap = (map: BoardMap, rows: number, cols: number): BoardMap => {
+  const grid = createEmptyGrid(rows, cols);
+  for (let r = 0; r < Math.min(rows, map.rows); r++) {
+    for (let c = 0; c < Math.min(cols, map.cols); c++) {
+      grid[r][c] = { ...map.grid[r][c] };
+    }
+  }
+  const fits = ({ row, col }: Position) => row < rows && col < cols;
+
+  return {
+    ...map,
+    rows,
+    cols,
+    grid,
+    hqs: map.hqs.filter(fits),
+    powerUpSpawns: map.powerUpSpawns.filter(fits)
+  };
+};
+
+export const serializeMap = (map: BoardMap): string =>
+  JSON.stringify({ version: MAP_FORMAT_VERSION, ...map }, null, 2);
+
+const isPlayer = (value: unknown): value is PLAYER =>
+  Object.values(PLAYER).includes(value as PLAYER);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object';
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+const isPosition = (value: unknown): value is Position =>
+  isObject(value) && isInteger(value.row) && isInteger(value.col);
+
+const isMapHQ = (value: unknown): value is MapHQ =>
+  isObject(value) && isPlayer(value.player) && isPosition(value);
+
+// Anything but a wall or a count of a seated player's atoms is an empty cell
+const parseMapCell = (cell: unknown): GridCell => {
+  if (!isObject(cell)) return { atoms: 0, player: null };
+  if (cell.blocked) return { atoms: 0, player: null, blocked: true };
+  const atoms = isInteger(cell.atoms) && cell.atoms > 0 ? cell.atoms : 0;
+  return atoms > 0 && isPlayer(cell.player) ? { atoms, player: cell.player } : { atoms: 0, player: null };
+};
+
+/**
+ * Read a map saved with serializeMap. Throws if the JSON is not a map; a
+ * well-formed map can still break the rules, which validateMap reports.
+ */
+export const parseMap = (json: string): BoardMap => {
+  const data: unknown = JSON.parse(json);
+
+  if (!isObject(data)) throw new Error("Map file is empty");
+  if (data.version !== MAP_FORMAT_VERSION) throw new Error(`Unsupported map version: ${data.version}`);
+  const { rows, cols } = data;
+  if (!isInteger(rows) || !isInteger(cols)) throw new Error("Map size is missing");
+  if (!isArrayOf(data.players, isPlayer)) throw new Error("Map players are invalid");
+  const isGridRow = (row: unknown): row is unknown[] => Array.isArray(row) && row.length === cols;
+  if (!isArrayOf(data.grid, isGridRow) || data.grid.length !== rows) {
+    throw new Error("Map grid does not match its size");
+  }
+  if (!isArrayOf(data.hqs, isMapHQ)) throw new Error("Map HQs are invalid");
+  if (!isArrayOf(data.powerUpSpawns, isPosition)) throw new Error("Map power-up spawn points are invalid");
+
+  return {
+    name: typeof data.name === 'string' ? data.name : "Untitled",
+    rows,
+    cols,
+    players: [...data.players],
+    ...(data.topology === 'hex' || data.topology === 'moore' ? { topology: data.topology as TopologyKind } : {}),
+    ...(data.wrap === true ? { wrap: true } : {}),
+    grid: data.grid.map(row => row.map(parseMapCell)),
+    hqs: data.hqs.map(({ row, col, player }) => ({ row, col, player })),
+    powerUpSpawns: data.powerUpSpawns.map(({ row, col }) => ({ row, col }))
+  };
+};
+
+// Open cells reachable from a starting cell by spreading explosions
+const floodFill = (map: BoardMap, start: Position): Set<string> => {
+  const seen = new Set<string>([`${start.row},${start.col}`]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const { row, col } = queue.shift()!;
+    getNeighbors(map, row, col).forEach(next => {
+      const key = `${next.row},${next.col}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push(next);
+      }
+    });
+  }
+  return seen;
+};
+
+/**
+ * List everything that stops the map from being played in the given mode.
+ * An empty list means the map is ready to use.
+ */
+export const validateMap = (map: BoardMap, mode: GameMode): string[] => {
+  const errors: string[] = [];
+  const board = { rows: map.rows, cols: map.cols, grid: map.grid, topology: map.topology, wrap: map.wrap };
+
+  if (map.rows < MIN_BOARD_SIZE || map.rows > MAX_BOARD_SIZE || map.cols < MIN_BOARD_SIZE || map.cols > MAX_BOARD_SIZE) {
+    errors.push(`Board must be between ${MIN_BOARD_SIZE}x${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}x${MAX_BOARD_SIZE}`);
+  }
+  if (needsEvenRows(map.topology, map.wrap) && map.rows % 2 === 1) {
+    errors.push("Wrapping hex boards need an even number of rows");
+  }
+  if (map.players.length < 2 || map.players.length > 4 || new Set(map.players).size !== map.players.length) {
+    errors.push("Map needs 2 to 4 different players");
+  }
+
+  map.grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell.player && !map.players.includes(cell.player)) {
+      errors.push(`Atoms at (${row},${col}) belong to a player who is not on this map`);
+    } else if (cell.atoms > 0 && cell.atoms >= getCriticalMass(board, row, col)) {
+      errors.push(`Atoms at (${row},${col}) would explode immediately`);
+    }
+  }));
+
+  map.powerUpSpawns.forEach(({ row, col }) => {
+    if (!isInBounds(map, row, col) || map.grid[row][col].blocked) {
+      errors.push(`Power-up spawn point at (${row},${col}) is on a wall`);
+    }
+  });
+
+  if (mode === 'base') {
+    map.players.forEach(player => {
+      const count = map.hqs.filter(hq => hq.player === player).length;
+      if (count !== 1) errors.push(`${player} needs exactly one HQ`);
+    });
+    map.hqs.forEach(({ row, col, player }) => {
+      if (!isInBounds(map, row, col) || map.grid[row][col].blocked) {
+        errors.push(`${player} HQ is on a wall`);
+      } else if (map.grid[row][col].atoms > 0) {
+        errors.push(`${player} HQ is on a cell with atoms`);
+      } else if (map.powerUpSpawns.some(spawn => spawn.row === row && spawn.col === col)) {
+        errors.push(`${player} HQ is on a power-up spawn point`);
+      }
+    });
+
+    // Every HQ must be reachable from every other one
+    if (map.hqs.length > 1 && errors.length === 0) {
+      const reachable = floodFill(map, map.hqs[0]);
+      map.hqs.slice(1).forEach(hq => {
+        if (!reachable.has(`${hq.row},${hq.col}`)) {
+          errors.push(`${hq.player} HQ cannot be reached from ${map.hqs[0].player} HQ`);
+        }
+      });
+    }
+  }
+
+  // Only worth simulating the first move once the layout itself is sound
+  if (errors.length === 0) {
+    const state = createInitialState(createGameConfig({ mode, map }));
+    map.players.forEach(player => {
+      if (getValidMoves({ ...state, currentPlayer: player }).length === 0) {
+        errors.push(`${player} has no legal first move`);
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,247 @@
+import {
+  PLAYER,
+  BoardMap,
+  ExplosionResolution,
+  GameMode,
+  GameState,
+  GridCell,
+  HQCell,
+  Position,
+  PowerUpCell,
+  TopologyKind
+} from "./types";
+import { getCriticalMass } from "./board";
+import { MAX_BOARD_SIZE, MIN_BOARD_SIZE, createGameConfig, needsEvenRows } from "./config";
+import { TOPOLOGIES } from "./topology";
+
+/*
+ * Position notation: one line of space-separated fields, in the spirit of FEN.
+ *
+ *   base 9x9 square rb 9/9/9/9/r17b1/9/9/9/9 r@a5:5,b@i5:5 - r 0 seq,hq5
+ *
+ *   1. mode        classic | base
+ *   2. size        rows x cols
+ *   3. layout      square | hex | moore, with "+wrap" when edges connect
+ *   4. seats       player letters in seat order (r red, b blue, o orange, k black)
+ *   5. board       rows top to bottom separated by "/": a player letter and its
+ *                  atoms for an owned cell, in brackets when more than 9 (r(12)),
+ *                  "#" for a wall, a number for a run of empty cells
+ *   6. HQs         player@cell:health, comma separated, "-" for none
+ *   7. power-ups   d (diamond) or h (heart) @cell, comma separated, "-" for none
+ *   8. status      player to move, "*" added while they pick a heart target;
+ *                  "won:r" or "draw" once the game is over
+ *   9. turn        dots placed so far
+ *  10. rules       seq | waves, then hq and the HQ starting health
+ *  11. spawns      cells where a custom map's power-ups appear, comma
+ *                  separated; left out when they can appear anywhere
+ *
+ * Cells are named like chess squares: column letter, then row number from the top.
+ */
+
+const PLAYER_LETTERS: Record<PLAYER, string> = {
+  [PLAYER.RED]: 'r',
+  [PLAYER.BLUE]: 'b',
+  [PLAYER.ORANGE]: 'o',
+  [PLAYER.BLACK]: 'k'
+};
+
+const POWER_UP_LETTERS = { diamond: 'd', heart: 'h' } as const;
+
+export const playerLetter = (player: PLAYER): string => PLAYER_LETTERS[player];
+
+export const parsePlayerLetter = (letter: string): PLAYER => {
+  const player = (Object.keys(PLAYER_LETTERS) as PLAYER[]).find(p => PLAYER_LETTERS[p] === letter);
+  if (!player) throw new Error(`Unknown player "${letter}"`);
+  return player;
+};
+
+export const formatCell = ({ row, col }: Position): string =>
+  `${String.fromCharCode(97 + col)}${row + 1}`;
+
+export const parseCell = (text: string, board: { rows: number; cols: number }): Position => {
+  const match = /^([a-z])(\d+)$/.exec(text);
+  if (!match) throw new Error(`Bad cell "${text}"`);
+  const cell = { row: Number(match[2]) - 1, col: match[1].charCodeAt(0) - 97 };
+  if (cell.row < 0 || cell.row >= board.rows || cell.col >= board.cols) {
+    throw new Error(`Cell ${text} is off the board`);
+  }
+  return cell;
+};
+
+const formatRow = (cells: GridCell[]): string => {
+  let text = "";
+  let empty = 0;
+  cells.forEach(cell => {
+    if (!cell.blocked && cell.player === null) {
+      empty++;
+      return;
+    }
+    if (empty > 0) text += empty;
+    empty = 0;
+    const atoms = cell.atoms > 9 ? `(${cell.atoms})` : cell.atoms;
+    text += cell.blocked ? '#' : `${PLAYER_LETTERS[cell.player!]}${atoms}`;
+  });
+  return empty > 0 ? text + empty : text;
+};
+
+const parseRow = (text: string, cols: number): GridCell[] => {
+  const cells: GridCell[] = [];
+  const tokens = text.match(/#|[a-z](?:\d|\(\d+\))|\d+|./g) ?? [];
+  tokens.forEach(token => {
+    if (token === '#') {
+      cells.push({ atoms: 0, player: null, blocked: true });
+    } else if (/^[a-z](\d|\(\d+\))$/.test(token)) {
+      const atoms = Number(token.slice(1).replace(/[()]/g, ''));
+      if (atoms === 0) throw new Error(`Cell "${token}" has no atoms`);
+      cells.push({ atoms, player: parsePlayerLetter(token[0]) });
+    } else if (/^\d+$/.test(token) && Number(token) > 0) {
+      for (let i = 0; i < Number(token); i++) cells.push({ atoms: 0, player: null });
+    } else {
+      throw new Error(`Unexpected "${token}" in board row "${text}"`);
+    }
+  });
+  if (cells.length !== cols) throw new Error(`Board row "${text}" has ${cells.length} cells, expected ${cols}`);
+  return cells;
+};
+
+// Comma-separated list, "-" when empty
+const formatList = (items: string[]): string => items.length > 0 ? items.join(',') : '-';
+const parseList = (text: string): string[] => text === '-' ? [] : text.split(',');
+
+export const serializePosition = (state: GameState): string => {
+  const { config } = state;
+  const layout = `${state.topology}${state.wrap ? '+wrap' : ''}`;
+  const seats = state.players.map(playerLetter).join('');
+  const board = state.grid.map(formatRow).join('/');
+  const hqs = formatList(state.hqs.map(hq => `${playerLetter(hq.player)}@${formatCell(hq)}:${hq.health}`));
+  const powerUps = formatList(state.powerUps.flatMap(powerUp =>
+    powerUp.type ? [`${POWER_UP_LETTERS[powerUp.type]}@${formatCell(powerUp)}`] : []
+  ));
+  const status = state.gameOver
+    ? state.winner ? `won:${playerLetter(state.winner)}` : 'draw'
+    : `${playerLetter(state.currentPlayer)}${state.pendingHeartPlayer ? '*' : ''}`;
+  const rules = `${config.resolution === 'waves' ? 'waves' : 'seq'},hq${config.hqHealth}`;
+  const spawns = config.map?.powerUpSpawns ?? [];
+
+  const fields = [config.mode, `${state.rows}x${state.cols}`, layout, seats, board, hqs, powerUps, status, state.turn, rules];
+  return [...fields, ...(spawns.length > 0 ? [spawns.map(formatCell).join(',')] : [])].join(' ');
+};
+
+/**
+ * Read a position written by serializePosition. Throws an Error describing
+ * the first problem found. The config gets default controllers and a fresh seed,
+ * which also starts the random generator. Spawn points come back as a map
+ * holding the position's walls and HQs.
+ */
+export const parsePosition = (text: string): GameState => {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== 10 && fields.length !== 11) throw new Error(`Expected 10 or 11 fields, found ${fields.length}`);
+  const [modeText, sizeText, layoutText, seatsText, boardText, hqsText, powerUpsText, statusText, turnText, rulesText, spawnsText] = fields;
+
+  if (modeText !== 'classic' && modeText !== 'base') throw new Error(`Unknown mode "${modeText}"`);
+  const mode: GameMode = modeText;
+
+  const size = /^(\d+)x(\d+)$/.exec(sizeText);
+  if (!size) throw new Error(`Bad board size "${sizeText}"`);
+  const rows = Number(size[1]);
+  const cols = Number(size[2]);
+  if ([rows, cols].some(n => n < MIN_BOARD_SIZE || n > MAX_BOARD_SIZE)) {
+    throw new Error(`Board sides must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`);
+  }
+
+  const [topologyText, wrapText, ...restLayout] = layoutText.split('+');
+  if (!Object.keys(TOPOLOGIES).includes(topologyText) || restLayout.length > 0 || (wrapText !== undefined && wrapText !== 'wrap')) {
+    throw new Error(`Unknown layout "${layoutText}"`);
+  }
+  const topology = topologyText as TopologyKind;
+  const wrap = wrapText === 'wrap';
+  if (needsEvenRows(topology, wrap) && rows % 2 === 1) {
+    throw new Error("Wrapping hex boards need an even number of rows");
+  }
+
+  const players = seatsText.split('').map(parsePlayerLetter);
+  if (players.length < 2 || new Set(players).size !== players.length) throw new Error(`Bad seats "${seatsText}"`);
+
+  const rowTexts = boardText.split('/');
+  if (rowTexts.length !== rows) throw new Error(`Board has ${rowTexts.length} rows, expected ${rows}`);
+  const grid = rowTexts.map(row => parseRow(row, cols));
+
+  const hqs: HQCell[] = parseList(hqsText).map(item => {
+    const match = /^([a-z])@([a-z]\d+):(\d+)$/.exec(item);
+    if (!match) throw new Error(`Bad HQ "${item}"`);
+    return { ...parseCell(match[2], { rows, cols }), player: parsePlayerLetter(match[1]), health: Number(match[3]) };
+  });
+
+  // HQs never explode, so only other cells must be below critical mass
+  grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell.player && !players.includes(cell.player)) {
+      throw new Error(`Cell ${formatCell({ row, col })} belongs to a player not seated`);
+    }
+    const isHQ = hqs.some(hq => hq.row === row && hq.col === col);
+    if (!isHQ && cell.atoms >= getCriticalMass({ rows, cols, grid, topology, wrap }, row, col)) {
+      throw new Error(`Cell ${formatCell({ row, col })} is at critical mass`);
+    }
+  }));
+
+  const powerUps: PowerUpCell[] = parseList(powerUpsText).map(item => {
+    const match = /^([dh])@([a-z]\d+)$/.exec(item);
+    if (!match) throw new Error(`Bad power-up "${item}"`);
+    return { ...parseCell(match[2], { rows, cols }), type: match[1] === 'd' ? 'diamond' : 'heart' };
+  });
+
+  let currentPlayer = players[0];
+  let pendingHeartPlayer: PLAYER | null = null;
+  let gameOver = false;
+  let winner: PLAYER | null = null;
+  const status = /^(?:([a-z])(\*?)|won:([a-z])|draw)$/.exec(statusText);
+  if (!status) throw new Error(`Bad status "${statusText}"`);
+  if (status[1]) {
+    currentPlayer = parsePlayerLetter(status[1]);
+    pendingHeartPlayer = status[2] ? currentPlayer : null;
+  } else {
+    gameOver = true;
+    winner = status[3] ? parsePlayerLetter(status[3]) : null;
+    currentPlayer = winner ?? players[0];
+  }
+  if (!players.includes(currentPlayer)) throw new Error(`${statusText} is not seated`);
+
+  if (!/^\d+$/.test(turnText)) throw new Error(`Bad turn "${turnText}"`);
+
+  const rules = /^(seq|waves),hq(\d+)$/.exec(rulesText);
+  if (!rules) throw new Error(`Bad rules "${rulesText}"`);
+  const resolution: ExplosionResolution = rules[1] === 'waves' ? 'waves' : 'sequential';
+
+  const spawns = spawnsText === undefined ? [] : spawnsText.split(',').map(cell => parseCell(cell, { rows, cols }));
+  const map: BoardMap | undefined = spawns.length > 0 ? {
+    name: "Untitled",
+    rows,
+    cols,
+    players,
+    topology,
+    wrap,
+    grid: grid.map(cells => cells.map(cell => cell.blocked ? { ...cell } : { atoms: 0, player: null })),
+    hqs: hqs.map(({ row, col, player }) => ({ row, col, player })),
+    powerUpSpawns: spawns
+  } : undefined;
+
+  const config = createGameConfig({ mode, players, rows, cols, topology, wrap, resolution, hqHealth: Number(rules[2]), map });
+
+  return {
+    config,
+    isBaseMode: mode === 'base',
+    rows,
+    cols,
+    topology,
+    wrap,
+    grid,
+    players,
+    currentPlayer,
+    hqs,
+    powerUps,
+    pendingHeartPlayer,
+    turn: Number(turnText),
+    gameOver,
+    winner,
+    rng: config.seed
+  };
+};
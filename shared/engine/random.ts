@@ -0,0 +1,33 @@
+// Small seeded generator (mulberry32). Its whole state is one 32-bit number,
+// so a game can record it and replay the same power-up spawns later.
+export type RandomSource = {
+  next: () => number; // Uniform in [0, 1), like Math.random
+  state: () => number; // Seed that continues the sequence from here
+};
+
+// Mix several numbers into one seed, for separate generators that still
+// follow from a game's seed (such as one per AI decision)
+export const deriveSeed = (...values: number[]): number => {
+  let hash = 0x811c9dc5;
+  values.forEach(value => {
+    hash = Math.imul(hash ^ (value >>> 0), 0x01000193);
+    hash ^= hash >>> 15;
+    hash = Math.imul(hash, 0x2c1b3c6d);
+    hash ^= hash >>> 12;
+  });
+  return hash >>> 0;
+};
+
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => state
+  };
+};
@@ -0,0 +1,231 @@
+import {
+  PLAYER,
+  PLAYER_CONTROL,
+  GameConfig,
+  GameEvent,
+  GameState,
+  Move,
+  PlayerController
+} from "./types";
+import { isInBounds } from "./board";
+import { createGameConfig } from "./config";
+import { MAP_FORMAT_VERSION, parseMap } from "./maps";
+import { applyMove, isValidMove } from "./rules";
+import { formatCell, parseCell, parsePosition, serializePosition } from "./notation";
+
+/*
+ * Game record: header tags, a blank line, then the turns, in the spirit of PGN.
+ *
+ *   [Version "1"]
+ *   [Mode "base"]
+ *   [Date "2026-10-19"]
+ *   [Players "red blue"]
+ *   [Controllers "human ai:aggressive"]
+ *   [Seed "2654435769"]
+ *   [Config "{\"shape\":\"rectangle\",...}"]
+ *   [Position "base 9x9 square rb 9/9/9/9/r17b1/9/9/9/9 r@a5:5,b@i5:5 - r 0 seq,hq5"]
+ *   [Result "red"]
+ *
+ *   1. e5 2. c3 3. d4 +d@f6 4. f6 5. c4 +h@b2 6. b2>a5
+ *
+ * Tag values are JSON strings. Players and Controllers are in seat order; a
+ * controller is "human", "ai" or "ai:" and the strategy name. Config holds the
+ * rest of the GameConfig as JSON. Position is the starting position, and
+ * Result is the winner, "draw", or "*" for a game still in progress.
+ *
+ * Each turn is the clicked cell, with ">" and the target when a heart was
+ * picked up. Power-ups spawned at the end of a turn follow it as
+ * "+" type (d diamond, h heart) "@" cell. Spawns come from the seed, so reading
+ * a record replays it and checks they match.
+ */
+
+// Bumped whenever the record format changes
+export const RECORD_FORMAT_VERSION = 1;
+
+export interface GameRecord {
+  start: GameState; // Its random generator state is the seed the game was played with
+  turns: Move[][]; // Clicks of every turn: one, or two for a heart and its target
+  date: string; // YYYY-MM-DD
+}
+
+// One turn of a record played out
+export type RecordedTurn = {
+  moves: Move[];
+  player: PLAYER;
+  events: GameEvent[]; // Events of every click in the turn, in order
+  state: GameState; // Position after the turn, with the random generator state it left
+};
+
+/**
+ * Play a record's turns from its starting position and seed. Throws if a
+ * click is not a legal move at that point. A heart's target may be any cell
+ * on the board: one that is not an enemy HQ cancels the heart, as in the game.
+ */
+export const playRecord = (record: GameRecord): RecordedTurn[] => {
+  let state = record.start;
+
+  return record.turns.map((moves, index) => {
+    const player = state.currentPlayer;
+    const events: GameEvent[] = [];
+    moves.forEach(move => {
+      const legal = state.pendingHeartPlayer
+        ? isInBounds(state, move.row, move.col)
+        : isValidMove(state, move.row, move.col);
+      if (!legal) {
+        throw new Error(`Turn ${index + 1}: ${formatCell(move)} is not a legal move`);
+      }
+      const result = applyMove(state, move);
+      state = result.nextState;
+      events.push(...result.events);
+    });
+    return { moves, player, events, state };
+  });
+};
+
+const POWER_UP_LETTERS = { diamond: 'd', heart: 'h' } as const;
+
+const formatSpawns = (events: GameEvent[]): string[] =>
+  events.flatMap(event =>
+    event.type === 'powerUpSpawned' ? [`+${POWER_UP_LETTERS[event.powerUp]}@${formatCell(event)}`] : []
+  );
+
+const formatController = (controller: PlayerController): string =>
+  controller.control === PLAYER_CONTROL.AI
+    ? controller.aiStrategy ? `ai:${controller.aiStrategy}` : 'ai'
+    : 'human';
+
+const parseController = (text: string, player: PLAYER): PlayerController => {
+  if (text === 'human') return { player, control: PLAYER_CONTROL.HUMAN };
+  const match = /^ai(?::(.+))?$/.exec(text);
+  if (!match) throw new Error(`Unknown controller "${text}"`);
+  return match[1] ? { player, control: PLAYER_CONTROL.AI, aiStrategy: match[1] } : { player, control: PLAYER_CONTROL.AI };
+};
+
+const formatResult = (state: GameState): string =>
+  state.gameOver ? state.winner ?? 'draw' : '*';
+
+// Everything in the config that has no tag of its own
+const configDetails = ({ mode, players, controllers, seed, ...details }: GameConfig) => details;
+
+// Keep lines of turns readable in a text editor
+const MAX_LINE_LENGTH = 80;
+
+export const serializeRecord = (record: GameRecord): string => {
+  const { config } = record.start;
+  const turns = playRecord(record);
+  const end = turns.length > 0 ? turns[turns.length - 1].state : record.start;
+
+  const tags: [string, string][] = [
+    ['Version', String(RECORD_FORMAT_VERSION)],
+    ['Mode', config.mode],
+    ['Date', record.date],
+    ['Players', config.players.join(' ')],
+    ['Controllers', config.players.map(player =>
+      formatController(config.controllers.find(c => c.player === player) ?? { player, control: PLAYER_CONTROL.HUMAN })
+    ).join(' ')],
+    ['Seed', String(record.start.rng)],
+    ['Config', JSON.stringify(configDetails(config))],
+    ['Position', serializePosition(record.start)],
+    ['Result', formatResult(end)]
+  ];
+
+  const lines: string[] = [];
+  let line = "";
+  turns.forEach((turn, index) => {
+    const text = [`${index + 1}.`, turn.moves.map(formatCell).join('>'), ...formatSpawns(turn.events)].join(' ');
+    if (line && line.length + 1 + text.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = text;
+    } else {
+      line = line ? `${line} ${text}` : text;
+    }
+  });
+  if (line) lines.push(line);
+
+  return [...tags.map(([name, value]) => `[${name} ${JSON.stringify(value)}]`), '', ...lines].join('\n') + '\n';
+};
+
+/**
+ * Read a record written by serializeRecord and check it by replaying it.
+ * Throws an Error describing the first problem found.
+ */
+export const parseRecord = (text: string): GameRecord => {
+  const tags = new Map<string, string>();
+  const body: string[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const tag = /^\[(\w+)\s+(".*")\]\s*$/.exec(line.trim());
+    if (tag) {
+      try {
+        tags.set(tag[1], JSON.parse(tag[2]));
+      } catch {
+        throw new Error(`${tag[1]} tag is not a valid quoted string`);
+      }
+    } else {
+      body.push(line);
+    }
+  });
+  const tag = (name: string): string => {
+    const value = tags.get(name);
+    if (value === undefined) throw new Error(`Missing ${name} tag`);
+    return value;
+  };
+
+  if (tag('Version') !== String(RECORD_FORMAT_VERSION)) throw new Error(`Unsupported record version: ${tag('Version')}`);
+
+  const mode = tag('Mode');
+  if (mode !== 'classic' && mode !== 'base') throw new Error(`Unknown mode "${mode}"`);
+
+  const players = tag('Players').split(' ') as PLAYER[];
+  if (!players.every(player => Object.values(PLAYER).includes(player))) throw new Error(`Bad players "${tag('Players')}"`);
+
+  const controllerTexts = tag('Controllers').split(' ');
+  if (controllerTexts.length !== players.length) throw new Error("Controllers do not match the players");
+  const controllers = controllerTexts.map((controller, i) => parseController(controller, players[i]));
+
+  if (!/^\d+$/.test(tag('Seed'))) throw new Error(`Bad seed "${tag('Seed')}"`);
+  const seed = Number(tag('Seed'));
+
+  let details: Partial<GameConfig>;
+  try {
+    details = JSON.parse(tag('Config'));
+  } catch {
+    throw new Error("Config tag is not valid JSON");
+  }
+  if (!details || typeof details !== 'object') throw new Error("Config tag is not an object");
+  // A custom map is checked the same way as a map file
+  if (details.map) details.map = parseMap(JSON.stringify({ version: MAP_FORMAT_VERSION, ...details.map }));
+
+  const position = parsePosition(tag('Position'));
+  if (position.config.mode !== mode) throw new Error("Position does not match the mode");
+  if (position.config.players.join(' ') !== players.join(' ')) throw new Error("Position does not match the players");
+  const config = createGameConfig({ ...details, mode, players, controllers, seed });
+  const start: GameState = { ...position, config, rng: seed };
+
+  // Turns, each optionally followed by the power-ups spawned after it
+  const turns: Move[][] = [];
+  const spawns: string[][] = [];
+  body.join(' ').split(/\s+/).filter(token => token !== '').forEach(token => {
+    if (/^\d+\.$/.test(token)) {
+      if (Number(token.slice(0, -1)) !== turns.length + 1) throw new Error(`Turn ${token} is out of order`);
+    } else if (/^\+[dh]@[a-z]\d+$/.test(token)) {
+      if (turns.length === 0) throw new Error(`Spawn ${token} comes before any turn`);
+      spawns[turns.length - 1].push(token);
+    } else {
+      turns.push(token.split('>').map(cell => parseCell(cell, start)));
+      spawns.push([]);
+    }
+  });
+
+  const record: GameRecord = { start, turns, date: tag('Date') };
+  const played = playRecord(record);
+  played.forEach((turn, index) => {
+    if (formatSpawns(turn.events).join(' ') !== spawns[index].join(' ')) {
+      throw new Error(`Turn ${index + 1}: spawned power-ups do not match the seed`);
+    }
+  });
+
+  const end = played.length > 0 ? played[played.length - 1].state : start;
+  if (formatResult(end) !== tag('Result')) throw new Error(`Result ${tag('Result')} does not match the moves`);
+
+  return record;
+};
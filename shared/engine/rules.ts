@@ -0,0 +1,474 @@
+import {
+  PLAYER,
+  CellUpdate,
+  ChainStopReason,
+  GameConfig,
+  GameEvent,
+  GameState,
+  HQCell,
+  Move,
+  MoveResult,
+  Position,
+  PowerUpType
+} from "./types";
+import {
+  cloneGrid,
+  cloneState,
+  createHQs,
+  findHQAt,
+  isBlocked,
+  getCriticalMass,
+  getNeighbors,
+  isInBounds,
+  isTouching
+} from "./board";
+import { getTopology } from "./topology";
+import { getActivePlayers, getNextPlayer, isEliminated, removeEliminatedPlayers } from "./turns";
+import { createShapedGrid } from "./shapes";
+import { createRandom } from "./random";
+
+// Upper bound on explosions resolved for a single move so a saturated board
+// cannot hang the caller; whatever is left collapses in place
+const MAX_EXPLOSIONS_PER_MOVE = 10000;
+
+// Random cells tried when placing a new power-up
+const POWER_UP_SPAWN_ATTEMPTS = 50;
+
+// Build the starting position for a game
+export const createInitialState = (config: GameConfig): GameState => {
+  const { players, rows, cols } = config;
+  const isBaseMode = config.mode === 'base';
+  const { map } = config;
+  const grid = map ? cloneGrid(map.grid) : createShapedGrid(config.shape, rows, cols);
+
+  let hqs: HQCell[] = [];
+  if (isBaseMode && map) {
+    hqs = map.hqs
+      .filter(hq => players.includes(hq.player))
+      .map(hq => ({ ...hq, health: config.hqHealth }));
+  } else if (isBaseMode) {
+    hqs = createHQs(players, rows, cols, config.hqHealth, config.wrap);
+  }
+
+  // HQ cells start with a single atom of their owner's colour
+  hqs.forEach(hq => {
+    grid[hq.row][hq.col] = { atoms: 1, player: hq.player };
+  });
+
+  return {
+    config,
+    isBaseMode,
+    rows,
+    cols,
+    topology: config.topology,
+    wrap: config.wrap,
+    grid,
+    players: [...players],
+    currentPlayer: players[0],
+    hqs,
+    powerUps: [], // Power-ups only appear once play is under way
+    pendingHeartPlayer: null,
+    turn: 0,
+    gameOver: false,
+    winner: null,
+    rng: config.seed
+  };
+};
+
+// Check if the current player may click the given cell
+export const isValidMove = (state: GameState, row: number, col: number): boolean => {
+  const { grid, currentPlayer, gameOver, isBaseMode, hqs } = state;
+
+  if (gameOver) return false;
+  if (!isInBounds(state, row, col)) return false;
+  if (isBlocked(state, row, col)) return false;
+
+  // While a heart is pending, only enemy HQs can be picked
+  if (state.pendingHeartPlayer) {
+    const hq = findHQAt(state, row, col);
+    return !!hq && hq.player !== state.pendingHeartPlayer;
+  }
+
+  const cell = grid[row][col];
+
+  // In classic mode, a move is valid if the cell is empty or owned by the current player
+  if (!isBaseMode) {
+    return cell.player === null || cell.player === currentPlayer;
+  }
+
+  // RULE 1: Cannot place on any HQ base (even your own)
+  if (findHQAt(state, row, col)) return false;
+
+  // RULE 2: Can only play on empty cells or your own cells
+  if (cell.player !== null && cell.player !== currentPlayer) return false;
+
+  const ownHQ = hqs.find(hq => hq.player === currentPlayer);
+  if (!ownHQ) return false;
+
+  // RULE 3: The whole side of the board the HQ sits on is always playable
+  let isInHQLine: boolean;
+  if (ownHQ.col === 0 || ownHQ.col === state.cols - 1) {
+    isInHQLine = col === ownHQ.col;
+  } else if (ownHQ.row === 0 || ownHQ.row === state.rows - 1) {
+    isInHQLine = row === ownHQ.row;
+  } else {
+    // HQ away from the edges: allow both its row and column
+    isInHQLine = row === ownHQ.row || col === ownHQ.col;
+  }
+
+  // RULE 4: Cells around your own HQ (including diagonals on square and Moore
+  // grids, which on Moore grids are also the cells an HQ explosion reaches)
+  const isAdjacentToHQ = isTouching(state, ownHQ.row, ownHQ.col, row, col);
+
+  // RULE 5: Cells touching one of your dots
+  const hasOwnNeighbor = getTopology(state.topology)
+    .touching(state, row, col)
+    .some(({ row: r, col: c }) => grid[r][c].player === currentPlayer);
+
+  return isInHQLine || isAdjacentToHQ || hasOwnNeighbor;
+};
+
+// All cells the current player may click
+export const getValidMoves = (state: GameState): Position[] => {
+  const moves: Position[] = [];
+  for (let row = 0; row < state.rows; row++) {
+    for (let col = 0; col < state.cols; col++) {
+      if (isValidMove(state, row, col)) {
+        moves.push({ row, col });
+      }
+    }
+  }
+  return moves;
+};
+
+/**
+ * Apply a move and resolve it completely. The input state is never mutated;
+ * the returned events describe what happened, in order, for animation.
+ * Chance (power-up spawns) draws from the generator carried in the state,
+ * unless another random source is passed, which leaves that generator as it was.
+ */
+export const applyMove = (
+  state: GameState,
+  move: Move,
+  random?: () => number
+): MoveResult => {
+  if (random) return resolveMove(state, move, random);
+
+  const generator = createRandom(state.rng);
+  const result = resolveMove(state, move, generator.next);
+  if (result.nextState !== state) result.nextState.rng = generator.state();
+  return result;
+};
+
+const resolveMove = (state: GameState, move: Move, random: () => number): MoveResult => {
+  if (state.gameOver) {
+    return { nextState: state, events: [] };
+  }
+
+  if (state.pendingHeartPlayer) {
+    return applyHeartTarget(state, move, random);
+  }
+
+  const next = cloneState(state);
+  const events: GameEvent[] = [];
+  const { row, col } = move;
+  const player = state.currentPlayer;
+  const explosionQueue: Position[] = [];
+  const activeBefore = getActivePlayers(state);
+  const opponents = activeBefore.filter(other => other !== player);
+
+  next.turn += 1;
+
+  // Queue a cell if it has reached critical mass
+  const queueIfCritical = (r: number, c: number) => {
+    if (next.grid[r][c].atoms >= getCriticalMass(next, r, c) &&
+        !explosionQueue.some(item => item.row === r && item.col === c)) {
+      explosionQueue.push({ row: r, col: c });
+    }
+  };
+
+  // Add a dot for the current player if the cell is free or already theirs
+  const addOwnDot = (r: number, c: number) => {
+    const cell = next.grid[r][c];
+    if (!cell.blocked && (cell.player === null || cell.player === player)) {
+      cell.atoms += 1;
+      cell.player = player;
+      events.push({ type: 'atomPlaced', row: r, col: c, player, atoms: cell.atoms });
+    }
+  };
+
+  const powerUpIndex = next.powerUps.findIndex(pu => pu.row === row && pu.col === col);
+  const powerUpType: PowerUpType = powerUpIndex !== -1 ? next.powerUps[powerUpIndex].type : null;
+  if (powerUpIndex !== -1) {
+    next.powerUps.splice(powerUpIndex, 1);
+    if (powerUpType) {
+      events.push({ type: 'powerUpConsumed', row, col, player, powerUp: powerUpType });
+    }
+  }
+
+  if (powerUpType === 'diamond') {
+    if (next.players.length >= 3) {
+      // 3-4 players: a dot in every cell of the 3x3 area around the clicked cell
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) {
+          if (isInBounds(next, r, c)) addOwnDot(r, c);
+        }
+      }
+    } else {
+      // 2 players: a dot in every cell of the clicked row
+      for (let c = 0; c < next.cols; c++) {
+        addOwnDot(row, c);
+      }
+    }
+    // Only the clicked cell can set off a chain reaction
+    queueIfCritical(row, col);
+  } else if (powerUpType === 'heart') {
+    // Hearts never place a dot: they heal your HQ or hurt an enemy HQ
+    const ownHQ = next.hqs.find(hq => hq.player === player);
+    if (ownHQ && ownHQ.health < next.config.hqHealth) {
+      ownHQ.health += 1;
+      events.push({ type: 'hqHealed', row: ownHQ.row, col: ownHQ.col, player, health: ownHQ.health });
+    } else if (ownHQ) {
+      const enemyHQs = next.hqs.filter(hq => hq.player !== player);
+      if (enemyHQs.length === 1) {
+        damageHQ(next, enemyHQs[0].row, enemyHQs[0].col, events);
+      } else if (enemyHQs.length > 1) {
+        // Several enemies: the same player picks the target with their next click
+        next.pendingHeartPlayer = player;
+        return { nextState: next, events };
+      }
+    }
+  } else {
+    const cell = next.grid[row][col];
+    if (cell.player !== null && cell.player !== player) {
+      // Placing on an enemy cell replaces it with a single dot
+      events.push({ type: 'cellCaptured', row, col, from: cell.player, to: player });
+      next.grid[row][col] = { atoms: 1, player };
+    } else {
+      cell.atoms += 1;
+      cell.player = player;
+    }
+    events.push({ type: 'atomPlaced', row, col, player, atoms: next.grid[row][col].atoms });
+    queueIfCritical(row, col);
+  }
+
+  // Resolve the chain reaction. Sequential play explodes one queued cell at
+  // a time; wave play explodes every critical cell of a generation at once,
+  // removing their atoms before any of them spread.
+  const inWaves = next.config.resolution === 'waves';
+  let explosions = 0;
+  let wave = 0;
+  let wipedOut = false;
+  while (explosionQueue.length > 0 && explosions < MAX_EXPLOSIONS_PER_MOVE && !wipedOut) {
+    const exploding = (inWaves ? explosionQueue.splice(0) : [explosionQueue.shift()!])
+      .filter(({ row: r, col: c }) => next.grid[r][c].atoms >= getCriticalMass(next, r, c));
+    if (exploding.length === 0) continue;
+
+    exploding.forEach(({ row: r, col: c }) => {
+      const cell = next.grid[r][c];
+      cell.atoms -= getCriticalMass(next, r, c);
+      if (cell.atoms === 0) {
+        cell.player = null;
+      }
+    });
+
+    let hitOpponent = false;
+    exploding.forEach(({ row: r, col: c }) => {
+      const spread: CellUpdate[] = [];
+      const consequences: GameEvent[] = [];
+
+      getNeighbors(next, r, c).forEach(({ row: nr, col: nc }) => {
+        // Explosions never add atoms to an HQ; enemy HQs lose health instead
+        if (next.isBaseMode && findHQAt(next, nr, nc)) {
+          const hq = findHQAt(next, nr, nc)!;
+          if (hq.player !== player && hq.health > 0) {
+            damageHQ(next, nr, nc, consequences);
+          }
+          return;
+        }
+
+        // The neighbour joins the exploding player's side, keeping its atoms
+        const neighbor = next.grid[nr][nc];
+        if (neighbor.player !== null && neighbor.player !== player) {
+          consequences.push({ type: 'cellCaptured', row: nr, col: nc, from: neighbor.player, to: player });
+        }
+        neighbor.atoms += 1;
+        neighbor.player = player;
+        spread.push({ row: nr, col: nc, atoms: neighbor.atoms });
+        queueIfCritical(nr, nc);
+      });
+
+      // A cell that was overloaded may still be critical after exploding
+      queueIfCritical(r, c);
+
+      const { atoms } = next.grid[r][c];
+      events.push({ type: 'cellExploded', row: r, col: c, player, atoms, spread, wave }, ...consequences);
+      hitOpponent = hitOpponent || consequences.length > 0;
+    });
+
+    explosions += exploding.length;
+    wave++;
+
+    // Only captures and HQ hits can knock an opponent out, and once all of
+    // them are gone the rest of the chain cannot change the result
+    wipedOut = hitOpponent && opponents.length > 0 &&
+      opponents.every(opponent => isEliminated(next, opponent));
+  }
+
+  if (explosionQueue.length > 0) {
+    collapseChain(next, explosionQueue, player, wipedOut ? 'victory' : 'limit', events);
+  }
+
+  // Power-ups only appear after a dot that set nothing off, from the first move on
+  finishTurn(next, player, events, random, activeBefore, powerUpType !== 'heart' && explosions === 0);
+  return { nextState: next, events };
+};
+
+// Resolve the target click of a pending heart power-up
+const applyHeartTarget = (state: GameState, move: Move, random: () => number): MoveResult => {
+  const next = cloneState(state);
+  const events: GameEvent[] = [];
+  const player = state.pendingHeartPlayer!;
+  const target = findHQAt(next, move.row, move.col);
+
+  next.pendingHeartPlayer = null;
+
+  // Anything other than an enemy HQ cancels the heart
+  if (target && target.player !== player) {
+    damageHQ(next, target.row, target.col, events);
+  }
+
+  finishTurn(next, player, events, random, getActivePlayers(state), false);
+  return { nextState: next, events };
+};
+
+// Settle every cell still queued to explode one atom short of critical mass
+const collapseChain = (
+  state: GameState,
+  queue: Position[],
+  player: PLAYER,
+  reason: ChainStopReason,
+  events: GameEvent[]
+) => {
+  const cells: CellUpdate[] = [];
+  queue.forEach(({ row, col }) => {
+    const cell = state.grid[row][col];
+    const criticalMass = getCriticalMass(state, row, col);
+    if (cell.atoms >= criticalMass) {
+      cell.atoms = criticalMass - 1;
+      cell.player = cell.atoms > 0 ? cell.player : null;
+      cells.push({ row, col, atoms: cell.atoms });
+    }
+  });
+  if (cells.length > 0) {
+    events.push({ type: 'chainCollapsed', player, reason, cells });
+  }
+};
+
+const damageHQ = (state: GameState, row: number, col: number, events: GameEvent[]) => {
+  const hq = findHQAt(state, row, col);
+  if (!hq) return;
+
+  hq.health -= 1;
+  if (hq.health <= 0) {
+    events.push({ type: 'hqDestroyed', row, col, player: hq.player });
+  } else {
+    events.push({ type: 'hqDamaged', row, col, player: hq.player, health: hq.health });
+  }
+};
+
+// Remove eliminated players, decide the winner, pass the turn and spawn power-ups
+const finishTurn = (
+  state: GameState,
+  player: PLAYER,
+  events: GameEvent[],
+  random: () => number,
+  activeBefore: PLAYER[],
+  maySpawnPowerUp: boolean
+) => {
+  removeEliminatedPlayers(state, activeBefore, events);
+
+  // Last player standing wins; nobody left is a draw
+  const active = getActivePlayers(state);
+  if (active.length <= 1) {
+    state.gameOver = true;
+    state.winner = active.length === 1 ? active[0] : null;
+    return;
+  }
+
+  const { nextPlayer, skipped } = getNextPlayer(state, player, candidate =>
+    getValidMoves({ ...state, currentPlayer: candidate }).length > 0
+  );
+
+  // Nobody can move any more: the game is drawn
+  if (nextPlayer === null) {
+    state.gameOver = true;
+    state.winner = null;
+    return;
+  }
+
+  state.currentPlayer = nextPlayer;
+  events.push({ type: 'turnPassed', from: player, to: nextPlayer, skipped });
+
+  if (maySpawnPowerUp && state.isBaseMode && state.config.powerUps.enabled) {
+    spawnPowerUp(state, random, events);
+  }
+};
+
+// Occasionally drop a single power-up on a quiet, empty cell
+const spawnPowerUp = (state: GameState, random: () => number, events: GameEvent[]) => {
+  const { spawnChance, maxOnBoard } = state.config.powerUps;
+  if (random() >= spawnChance || state.powerUps.length >= maxOnBoard) return;
+
+  // Never two power-ups of the same type at once
+  const existingTypes = state.powerUps.map(p => p.type);
+  let type: 'diamond' | 'heart';
+  if (existingTypes.includes('diamond') && existingTypes.includes('heart')) {
+    return;
+  } else if (existingTypes.includes('diamond')) {
+    type = 'heart';
+  } else if (existingTypes.includes('heart')) {
+    type = 'diamond';
+  } else {
+    type = random() < 0.5 ? 'diamond' : 'heart';
+  }
+
+  // Maps with fixed spawn points only ever use those
+  const spawnPoints = state.config.map?.powerUpSpawns ?? [];
+  if (spawnPoints.length > 0) {
+    const free = spawnPoints.filter(({ row, col }) =>
+      state.grid[row][col].player === null &&
+      !state.grid[row][col].blocked &&
+      !findHQAt(state, row, col) &&
+      !state.powerUps.some(pu => pu.row === row && pu.col === col)
+    );
+    if (free.length > 0) {
+      const { row, col } = free[Math.floor(random() * free.length)];
+      state.powerUps.push({ row, col, type });
+      events.push({ type: 'powerUpSpawned', row, col, powerUp: type });
+    }
+    return;
+  }
+
+  // With 2 players the middle 3 rows are no-man's land
+  const middleRowStart = Math.floor(state.rows / 2) - 1;
+  const middleRowEnd = Math.floor(state.rows / 2) + 1;
+
+  for (let attempt = 0; attempt < POWER_UP_SPAWN_ATTEMPTS; attempt++) {
+    const row = Math.floor(random() * state.rows);
+    const col = Math.floor(random() * state.cols);
+
+    const isInMiddleRows = state.players.length <= 2 && row >= middleRowStart && row <= middleRowEnd;
+    const isCellEmpty = state.grid[row][col].player === null && !state.grid[row][col].blocked;
+    const isNotHQ = !findHQAt(state, row, col);
+    const isAdjacentToDot = getTopology(state.topology)
+      .touching(state, row, col)
+      .some(({ row: r, col: c }) => state.grid[r][c].player !== null);
+
+    if (!isInMiddleRows && isCellEmpty && isNotHQ && !isAdjacentToDot) {
+      state.powerUps.push({ row, col, type });
+      events.push({ type: 'powerUpSpawned', row, col, powerUp: type });
+      return;
+    }
+  }
+};
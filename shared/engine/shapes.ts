@@ -0,0 +1,60 @@
+import { BoardShape, GridCell } from "./types";
+
+export const BOARD_SHAPES: BoardShape[] = ['rectangle', 'cross', 'ring', 'diamond', 'holes'];
+
+// Whether a cell is a wall in the given shape. Every shape keeps the middle
+// of each edge open, since that is where base mode puts its HQs.
+export const isBlockedInShape = (
+  shape: BoardShape,
+  rows: number,
+  cols: number,
+  row: number,
+  col: number
+): boolean => {
+  const midRow = Math.floor(rows / 2);
+  const midCol = Math.floor(cols / 2);
+
+  switch (shape) {
+    case 'cross': {
+      // Corners cut away, leaving a plus sign of three equal bands
+      const rowBand = Math.floor(rows / 3);
+      const colBand = Math.floor(cols / 3);
+      return (row < rowBand || row >= rows - rowBand) && (col < colBand || col >= cols - colBand);
+    }
+    case 'ring': {
+      // Hollow centre
+      const rowBand = Math.max(1, Math.floor(rows / 3));
+      const colBand = Math.max(1, Math.floor(cols / 3));
+      return row >= rowBand && row < rows - rowBand && col >= colBand && col < cols - colBand;
+    }
+    case 'diamond': {
+      // Cells outside the rhombus touching the middle of each edge
+      const halfRows = (rows - 1) / 2;
+      const halfCols = (cols - 1) / 2;
+      return Math.abs(row - halfRows) / (halfRows + 0.5) + Math.abs(col - halfCols) / (halfCols + 0.5) > 1;
+    }
+    case 'holes': {
+      // Single-cell holes on a grid, away from the edges and the centre lines
+      const isEdge = row === 0 || col === 0 || row === rows - 1 || col === cols - 1;
+      const isCentreLine = row === midRow || col === midCol;
+      return !isEdge && !isCentreLine && row % 2 === 1 && col % 2 === 1;
+    }
+    default:
+      return false;
+  }
+};
+
+// Create an empty grid with the shape's walls in place
+export const createShapedGrid = (shape: BoardShape, rows: number, cols: number): GridCell[][] => {
+  const grid: GridCell[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const row: GridCell[] = [];
+    for (let c = 0; c < cols; c++) {
+      row.push(isBlockedInShape(shape, rows, cols, r, c)
+        ? { atoms: 0, player: null, blocked: true }
+        : { atoms: 0, player: null });
+    }
+    grid.push(row);
+  }
+  return grid;
+};
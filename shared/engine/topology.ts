@@ -0,0 +1,68 @@
+import { Position, TopologyKind } from "./types";
+
+type BoardSize = { rows: number; cols: number; wrap?: boolean };
+
+// How cells connect. Neighbours receive atoms when a cell explodes; touching
+// cells count as "next to" each other for base-mode placement rules.
+export interface Topology {
+  maxNeighbors: number; // Neighbours of a cell away from edges and walls
+  neighbors: (board: BoardSize, row: number, col: number) => Position[];
+  touching: (board: BoardSize, row: number, col: number) => Position[];
+}
+
+const inBounds = (board: BoardSize) => ({ row, col }: Position) =>
+  row >= 0 && col >= 0 && row < board.rows && col < board.cols;
+
+// On a wrapping board, cells off one edge come back in on the opposite edge
+const wrapAround = (board: BoardSize) => ({ row, col }: Position): Position => ({
+  row: (row + board.rows) % board.rows,
+  col: (col + board.cols) % board.cols
+});
+
+const offsetCells = (board: BoardSize, row: number, col: number, offsets: number[][]): Position[] => {
+  const cells = offsets.map(([dr, dc]) => ({ row: row + dr, col: col + dc }));
+  return board.wrap ? cells.map(wrapAround(board)) : cells.filter(inBounds(board));
+};
+
+// Up, right, down, left
+const ORTHOGONAL = [[-1, 0], [0, 1], [1, 0], [0, -1]];
+const DIAGONAL = [[-1, -1], [-1, 1], [1, 1], [1, -1]];
+
+// Hex cells in "odd-r" layout: odd rows are shifted half a cell to the right,
+// so the diagonal neighbours depend on the row's parity. Wrapping top to
+// bottom only lines up when the number of rows is even.
+const HEX_EVEN_ROW = [[-1, -1], [-1, 0], [0, 1], [1, 0], [1, -1], [0, -1]];
+const HEX_ODD_ROW = [[-1, 0], [-1, 1], [0, 1], [1, 1], [1, 0], [0, -1]];
+
+const squareTopology: Topology = {
+  maxNeighbors: 4,
+  neighbors: (board, row, col) => offsetCells(board, row, col, ORTHOGONAL),
+  touching: (board, row, col) => offsetCells(board, row, col, [...ORTHOGONAL, ...DIAGONAL])
+};
+
+const hexNeighbors = (board: BoardSize, row: number, col: number) =>
+  offsetCells(board, row, col, row % 2 === 0 ? HEX_EVEN_ROW : HEX_ODD_ROW);
+
+const hexTopology: Topology = {
+  maxNeighbors: 6,
+  neighbors: hexNeighbors,
+  touching: hexNeighbors
+};
+
+const mooreNeighbors = (board: BoardSize, row: number, col: number) =>
+  offsetCells(board, row, col, [...ORTHOGONAL, ...DIAGONAL]);
+
+// Square cells that also explode diagonally
+const mooreTopology: Topology = {
+  maxNeighbors: 8,
+  neighbors: mooreNeighbors,
+  touching: mooreNeighbors
+};
+
+export const TOPOLOGIES: Record<TopologyKind, Topology> = {
+  square: squareTopology,
+  hex: hexTopology,
+  moore: mooreTopology
+};
+
+export const getTopology = (kind: TopologyKind = 'square'): Topology => TOPOLOGIES[kind];
@@ -0,0 +1,82 @@
+import { PLAYER, GameEvent, GameState } from "./types";
+import { getPlayersOnBoard } from "./board";
+
+// Turn order: the game's own player list is the seat order. Players leave the
+// rotation when they are eliminated and are skipped while they have no legal move.
+
+// Nobody is skipped in the opening round, so the player in seat i has had a
+// turn once more than i dots have been placed
+export const hasTakenFirstTurn = (state: GameState, player: PLAYER): boolean =>
+  state.players.indexOf(player) < state.turn;
+
+// Base mode: out when the HQ is gone. Classic mode: out when all atoms are
+// lost, but everyone is granted their first turn before that can happen.
+export const isEliminated = (state: GameState, player: PLAYER): boolean => {
+  if (state.isBaseMode) {
+    return !state.hqs.some(hq => hq.player === player && hq.health > 0);
+  }
+  return hasTakenFirstTurn(state, player) && !getPlayersOnBoard(state.grid).has(player);
+};
+
+// Players still in the game, in seat order
+export const getActivePlayers = (state: GameState): PLAYER[] =>
+  state.players.filter(player => !isEliminated(state, player));
+
+// The next player still in the game after the given seat
+export const getPlayerAfter = (state: GameState, player: PLAYER): PLAYER => {
+  const seat = state.players.indexOf(player);
+  for (let step = 1; step <= state.players.length; step++) {
+    const candidate = state.players[(seat + step) % state.players.length];
+    if (!isEliminated(state, candidate)) return candidate;
+  }
+  return player;
+};
+
+/**
+ * Remove players who dropped out during a move: their HQ and remaining dots
+ * leave the board. Returns the players eliminated by this move.
+ */
+export const removeEliminatedPlayers = (
+  state: GameState,
+  activeBefore: PLAYER[],
+  events: GameEvent[]
+): PLAYER[] => {
+  const eliminated = activeBefore.filter(player => isEliminated(state, player));
+
+  eliminated.forEach(player => {
+    for (const row of state.grid) {
+      for (let c = 0; c < row.length; c++) {
+        if (row[c].player === player) {
+          row[c] = { atoms: 0, player: null };
+        }
+      }
+    }
+    events.push({ type: 'playerEliminated', player });
+  });
+  state.hqs = state.hqs.filter(hq => hq.health > 0);
+
+  return eliminated;
+};
+
+/**
+ * Find whose turn is next in seat order. Players who cannot make any move
+ * lose their turn; null means nobody left in the game can move.
+ */
+export const getNextPlayer = (
+  state: GameState,
+  player: PLAYER,
+  canMove: (player: PLAYER) => boolean
+): { nextPlayer: PLAYER | null; skipped: PLAYER[] } => {
+  const active = getActivePlayers(state);
+  const skipped: PLAYER[] = [];
+
+  let candidate = player;
+  for (let step = 0; step < active.length; step++) {
+    candidate = getPlayerAfter(state, candidate);
+    if (canMove(candidate)) {
+      return { nextPlayer: candidate, skipped };
+    }
+    skipped.push(candidate);
+  }
+  return { nextPlayer: null, skipped };
+};
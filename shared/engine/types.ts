@@ -0,0 +1,167 @@
+export enum PLAYER {
+  RED = "red",
+  BLUE = "blue",
+  ORANGE = "orange",
+  BLACK = "black"
+}
+
+// Who makes the moves for a seat
+export enum PLAYER_CONTROL {
+  HUMAN = 'human',
+  AI = 'ai'
+}
+
+export type PlayerController = {
+  player: PLAYER;
+  control: PLAYER_CONTROL;
+  aiStrategy?: string; // Name of the AI strategy for AI seats
+};
+
+export type GameMode = 'classic' | 'base';
+
+// How cells connect: square cells with 4 neighbours, or hexagons with 6
+// Square cells explode into 4 neighbours, hex cells into 6 and Moore cells
+// (square cells including diagonals) into 8
+export type TopologyKind = 'square' | 'hex' | 'moore';
+
+// How a board's cells connect: the cell shape, and whether opposite edges
+// join up so the board behaves like a torus
+export interface BoardLayout {
+  topology?: TopologyKind; // Square when missing
+  wrap?: boolean;
+}
+
+// Outline of the playable area; everything outside it is wall
+export type BoardShape = 'rectangle' | 'cross' | 'ring' | 'diamond' | 'holes';
+
+export type PowerUpRules = {
+  enabled: boolean;
+  spawnChance: number; // Chance per turn of a new power-up appearing
+  maxOnBoard: number;
+};
+
+export type MapHQ = {
+  row: number;
+  col: number;
+  player: PLAYER;
+};
+
+// Hand-made layout: walls and pre-placed atoms in the grid, HQ positions and
+// fixed power-up spawn points
+export interface BoardMap {
+  name: string;
+  rows: number;
+  cols: number;
+  players: PLAYER[]; // Seat order for games on this map
+  topology?: TopologyKind; // Square when missing
+  wrap?: boolean; // Opposite edges connect
+  grid: GridCell[][];
+  hqs: MapHQ[];
+  powerUpSpawns: Position[];
+}
+
+// Sequential: queued cells explode one at a time. Waves: every critical cell
+// explodes at once, generation by generation.
+export type ExplosionResolution = 'sequential' | 'waves';
+
+// Everything chosen before a game starts. Captured once and never re-read
+// from the menu settings while the game is running.
+export interface GameConfig {
+  mode: GameMode;
+  players: PLAYER[]; // Seat order
+  controllers: PlayerController[];
+  rows: number;
+  cols: number;
+  topology: TopologyKind;
+  wrap: boolean; // Opposite edges connect
+  shape: BoardShape;
+  resolution: ExplosionResolution;
+  map?: BoardMap; // Replaces the shape and default HQ positions when set
+  hqHealth: number;
+  powerUps: PowerUpRules;
+  seed: number;
+}
+
+export type GridCell = {
+  atoms: number;
+  player: PLAYER | null;
+  blocked?: boolean; // Walls never hold atoms and don't count as neighbours
+};
+
+export type PowerUpType = 'diamond' | 'heart' | null;
+
+export type PowerUpCell = {
+  row: number;
+  col: number;
+  type: PowerUpType;
+};
+
+export type HQCell = {
+  row: number;
+  col: number;
+  player: PLAYER;
+  health: number;
+};
+
+export type Position = {
+  row: number;
+  col: number;
+};
+
+// A move is a click on a cell. While a heart power-up is waiting for a target,
+// the same click is interpreted as the enemy HQ to damage.
+export type Move = Position;
+
+// Everything the rules need to know about a game in progress
+export interface GameState {
+  config: GameConfig;
+  isBaseMode: boolean;
+  rows: number;
+  cols: number;
+  topology: TopologyKind;
+  wrap: boolean;
+  grid: GridCell[][];
+  players: PLAYER[];
+  currentPlayer: PLAYER;
+  hqs: HQCell[];
+  powerUps: PowerUpCell[];
+  pendingHeartPlayer: PLAYER | null;
+  turn: number; // Number of dots placed so far
+  gameOver: boolean;
+  winner: PLAYER | null;
+  rng: number; // Random generator state, so the same seed and moves replay the same game
+}
+
+// Resulting contents of a cell that received an atom
+export type CellUpdate = {
+  row: number;
+  col: number;
+  atoms: number;
+};
+
+// Steps of a resolved move, in the order they happened. Every event carries
+// the resulting values so a board can be replayed from the previous position.
+export type GameEvent =
+  | { type: 'atomPlaced'; row: number; col: number; player: PLAYER; atoms: number }
+  | { type: 'powerUpConsumed'; row: number; col: number; player: PLAYER; powerUp: 'diamond' | 'heart' }
+  | { type: 'powerUpSpawned'; row: number; col: number; powerUp: 'diamond' | 'heart' }
+  // Explosions sharing a wave number went off together
+  | { type: 'cellExploded'; row: number; col: number; player: PLAYER; atoms: number; spread: CellUpdate[]; wave: number }
+  | { type: 'cellCaptured'; row: number; col: number; from: PLAYER; to: PLAYER }
+  | { type: 'hqDamaged'; row: number; col: number; player: PLAYER; health: number }
+  | { type: 'hqHealed'; row: number; col: number; player: PLAYER; health: number }
+  | { type: 'hqDestroyed'; row: number; col: number; player: PLAYER }
+  | { type: 'playerEliminated'; player: PLAYER }
+  | { type: 'turnPassed'; from: PLAYER; to: PLAYER; skipped: PLAYER[] }
+  // A chain stopped early, because every opponent was wiped out or it ran
+  // too long; cells still waiting to explode settle one short of critical mass
+  | { type: 'chainCollapsed'; player: PLAYER; reason: ChainStopReason; cells: CellUpdate[] };
+
+export type ChainStopReason = 'victory' | 'limit';
+
+export type GameEventType = GameEvent['type'];
+
+export type MoveResult = {
+  nextState: GameState;
+  events: GameEvent[];
+};